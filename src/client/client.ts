@@ -21,7 +21,8 @@
  * ```
  */
 
-import type { FileEntry, ServerConfig } from '../shared/types.js';
+import type { ClientMessage, ContentMatch, ContentSearchOptions, DirectoryPage, DiskUsage, DownloadChunk, ErrorCode, ExtractOptions, ExtractProgress, ExtractResult, HashAlgorithm, HashResult, FileEntry, FileLock, ListOptions, OperationProgress, Precondition, PathPermissions, QuotaInfo, RestoreConflict, SearchOptions, ServerConfig, TrashItem, UploadSession, WatchEvent, WatchOptions } from '../shared/types.js';
+import { decodeFrame, encodeFrame } from '../shared/frames.js';
 
 /**
  * Client configuration options
@@ -57,6 +58,146 @@ export interface XFilesClientConfig {
    * @default 30000
    */
   maxReconnectDelay?: number;
+
+  /**
+   * Send and receive file content as binary frames instead of base64 JSON
+   * (only used when the server supports it)
+   * @default true
+   */
+  binaryFrames?: boolean;
+
+  /**
+   * How many times to retry a request the server rejected as rate limited,
+   * waiting for its retryAfter hint (doubling the minimum wait each time)
+   * @default 3
+   */
+  rateLimitRetries?: number;
+}
+
+/**
+ * Error for a failed request, with the server's error code if it sent one
+ */
+export interface XFilesError extends Error {
+  code?: ErrorCode;
+  /** Suggested wait before retrying (ms) */
+  retryAfter?: number;
+  /** Current version of the item, for code 'CONFLICT' (null if it is gone) */
+  version?: string | null;
+  /** Lease held by someone else, for code 'LOCKED' */
+  lock?: FileLock;
+}
+
+/**
+ * Options for chunked uploads
+ */
+export interface UploadOptions extends Precondition {
+  /**
+   * Bytes per chunk (capped at the server's maxFileSize)
+   * @default 1MB (1024 * 1024)
+   */
+  chunkSize?: number;
+
+  /**
+   * Called after every acknowledged chunk
+   */
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+/**
+ * Options for restoring an item from the trash
+ */
+export interface RestoreOptions {
+  /** Restore here instead of where the item was deleted from */
+  destination?: string;
+
+  /**
+   * What to do if the target already exists
+   * @default 'fail'
+   */
+  conflict?: RestoreConflict;
+}
+
+/**
+ * Options for extracting an archive on the server
+ */
+export interface ExtractArchiveOptions extends ExtractOptions, OperationOptions<ExtractProgress> {}
+
+/**
+ * Cancellation and progress for operations that walk a directory tree
+ */
+export interface OperationOptions<P = OperationProgress> {
+  /**
+   * Stops the operation on the server; the promise then rejects with code 'CANCELLED'
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with running totals while the operation runs
+   */
+  onProgress?: (progress: P) => void;
+}
+
+/**
+ * Options for measuring the size of a directory tree
+ */
+export type DiskUsageOptions = OperationOptions<DiskUsage>;
+
+/**
+ * File name search with cancellation and progress
+ */
+export interface SearchFilesOptions extends SearchOptions, OperationOptions {}
+
+/**
+ * Options for deleting an item
+ */
+export interface DeleteOptions extends OperationOptions, Precondition {}
+
+/**
+ * Options for streamed downloads
+ */
+export interface DownloadOptions {
+  /** First byte to download */
+  start?: number;
+
+  /** Last byte to download (inclusive, like an HTTP Range) */
+  end?: number;
+
+  /**
+   * Bytes per chunk (capped at the server's maxFileSize)
+   * @default 256KB (256 * 1024)
+   */
+  chunkSize?: number;
+
+  /**
+   * Called after every received chunk
+   */
+  onProgress?: (received: number, total: number) => void;
+}
+
+/**
+ * Callbacks for a request that were registered alongside its promise
+ */
+interface PendingRequest {
+  resolve: Function;
+  reject: Function;
+  onChunk?: (chunk: DownloadChunk) => void;
+  onMatch?: (match: ContentMatch) => void;
+  onProgress?: (progress: any) => void;
+  /** Cancels the request on the server when aborted */
+  signal?: AbortSignal;
+  /** Called with the requestId each time the request is sent */
+  onSent?: (requestId: number) => void;
+}
+
+/**
+ * Active directory subscription, kept across reconnects
+ */
+interface WatchSubscription {
+  path: string;
+  options: WatchOptions;
+  callback: (event: WatchEvent) => void;
+  watchId: number;
+  active: boolean;
 }
 
 /**
@@ -70,8 +211,10 @@ export class XFilesClient {
   private reconnectAttempts = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private requestId = 0;
-  private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
+  private pendingRequests = new Map<number, PendingRequest>();
   private serverConfig: ServerConfig | null = null;
+  private watchers = new Map<number, WatchSubscription>();
+  private connectionWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
 
   // Event handlers
   private connectHandler?: () => void;
@@ -85,6 +228,8 @@ export class XFilesClient {
       maxReconnectAttempts: config.maxReconnectAttempts ?? 5,
       reconnectDelay: config.reconnectDelay ?? 1000,
       maxReconnectDelay: config.maxReconnectDelay ?? 30000,
+      binaryFrames: config.binaryFrames ?? true,
+      rateLimitRetries: config.rateLimitRetries ?? 3,
     };
   }
 
@@ -105,6 +250,7 @@ export class XFilesClient {
 
       this.connecting = true;
       this.ws = new WebSocket(this.config.url);
+      this.ws.binaryType = 'arraybuffer';
 
       const onConnected = () => {
         this.connecting = false;
@@ -124,17 +270,24 @@ export class XFilesClient {
 
       this.ws.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data);
+          const message = typeof event.data === 'string'
+            ? JSON.parse(event.data)
+            : decodeFrame(new Uint8Array(event.data));
           this.handleMessage(message, onConnected, onError);
         } catch (error) {
           console.error('[x-files] Error parsing message:', error);
         }
       };
 
-      this.ws.onclose = () => {
+      this.ws.onclose = (event) => {
         console.log('[x-files] Disconnected');
         const wasConnected = this.connected;
         this.connected = false;
+
+        // Closed before the handshake finished (e.g. authentication failed)
+        if (this.connecting) {
+          onError(new Error(event.reason || 'Connection closed'));
+        }
         this.connecting = false;
 
         // Reject pending requests
@@ -150,6 +303,8 @@ export class XFilesClient {
         // Auto reconnect
         if (this.config.autoReconnect && this.reconnectAttempts < this.config.maxReconnectAttempts) {
           this.scheduleReconnect();
+        } else {
+          this.rejectConnectionWaiters(new Error('Connection closed'));
         }
       };
 
@@ -195,8 +350,16 @@ export class XFilesClient {
     switch (message.type) {
       case 'connected':
         this.serverConfig = message.config;
+        this.resubscribeWatchers();
         this.connectHandler?.();
         onConnected();
+        for (const { resolve } of this.connectionWaiters.splice(0)) {
+          resolve();
+        }
+        break;
+
+      case 'event':
+        this.dispatchWatchEvent(message.event);
         break;
 
       case 'error':
@@ -207,6 +370,18 @@ export class XFilesClient {
         }
         break;
 
+      case 'chunk':
+        this.pendingRequests.get(message.requestId)?.onChunk?.(message.chunk);
+        break;
+
+      case 'match':
+        this.pendingRequests.get(message.requestId)?.onMatch?.(message.match);
+        break;
+
+      case 'progress':
+        this.pendingRequests.get(message.requestId)?.onProgress?.(message.progress);
+        break;
+
       case 'result':
         const pending = this.pendingRequests.get(message.requestId);
         if (pending) {
@@ -214,7 +389,12 @@ export class XFilesClient {
           if (message.success) {
             pending.resolve(message.data);
           } else {
-            pending.reject(new Error(message.error));
+            const error: XFilesError = new Error(message.error);
+            error.code = message.code;
+            error.retryAfter = message.retryAfter;
+            error.version = message.version;
+            error.lock = message.lock;
+            pending.reject(error);
           }
         }
         break;
@@ -222,26 +402,142 @@ export class XFilesClient {
   }
 
   /**
-   * Send request to server
+   * Pass a watch event to its subscription
+   */
+  private dispatchWatchEvent(event: WatchEvent): void {
+    const subscription = this.watchers.get(event.watchId);
+    if (!subscription) return;
+
+    // The server ended the watch, so there's nothing left to unwatch or restore
+    if (event.type === 'error') {
+      this.watchers.delete(event.watchId);
+      subscription.active = false;
+    }
+    subscription.callback(event);
+  }
+
+  /**
+   * Re-establish directory subscriptions after a reconnect
+   */
+  private resubscribeWatchers(): void {
+    const subscriptions = [...this.watchers.values()];
+    this.watchers.clear();
+
+    for (const subscription of subscriptions) {
+      this.request<{ watchId: number }>('watch', { path: subscription.path, options: subscription.options })
+        .then(({ watchId }) => {
+          if (subscription.active) {
+            subscription.watchId = watchId;
+            this.watchers.set(watchId, subscription);
+          } else {
+            this.request('unwatch', { watchId }).catch(() => {});
+          }
+        })
+        .catch((error) => {
+          console.error(`[x-files] Failed to re-watch ${subscription.path}:`, error);
+        });
+    }
+  }
+
+  /**
+   * Wait for the connection to be re-established by auto-reconnect
+   */
+  private waitForConnection(): Promise<void> {
+    if (this.connected) {
+      return Promise.resolve();
+    }
+
+    if (!this.reconnectTimer && !this.connecting) {
+      return Promise.reject(new Error('Not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.connectionWaiters.push({ resolve, reject });
+    });
+  }
+
+  private rejectConnectionWaiters(error: Error): void {
+    for (const { reject } of this.connectionWaiters.splice(0)) {
+      reject(error);
+    }
+  }
+
+  /**
+   * Send request to server, backing off while it is rate limited
    */
-  private request<T>(type: string, params: Record<string, any> = {}): Promise<T> {
+  private async request<T>(
+    type: string,
+    params: Record<string, any> = {},
+    handlers: Omit<PendingRequest, 'resolve' | 'reject'> = {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendRequest<T>(type, params, handlers);
+      } catch (error) {
+        const { code, retryAfter = 0 } = error as XFilesError;
+        if (code !== 'RATE_LIMITED' || attempt >= this.config.rateLimitRetries) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, Math.max(retryAfter, 250 * 2 ** attempt)));
+      }
+    }
+  }
+
+  private sendRequest<T>(
+    type: string,
+    params: Record<string, any>,
+    handlers: Omit<PendingRequest, 'resolve' | 'reject'>
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.connected || !this.ws) {
         reject(new Error('Not connected'));
         return;
       }
 
+      const { signal } = handlers;
+      if (signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+
       const requestId = ++this.requestId;
-      this.pendingRequests.set(requestId, { resolve, reject });
+      const onAbort = () => {
+        if (!this.pendingRequests.delete(requestId)) return;
+        reject(cancelledError());
+        // Tell the server to stop; its reply no longer matters
+        this.sendRequest('cancel', { target: requestId }, {}).catch(() => {});
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(requestId, {
+        ...handlers,
+        resolve: (value: T) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
 
-      this.ws.send(JSON.stringify({
-        type,
-        requestId,
-        ...params,
-      }));
+      const message = { type, requestId, ...params } as ClientMessage;
+      if (params.content instanceof Uint8Array) {
+        this.ws.send(encodeFrame(message, params.content));
+      } else {
+        this.ws.send(JSON.stringify(message));
+      }
+      handlers.onSent?.(requestId);
     });
   }
 
+  /**
+   * Whether file content can travel as binary frames on this connection
+   */
+  private useBinaryFrames(): boolean {
+    return this.config.binaryFrames && this.serverConfig?.binaryFrames === true;
+  }
+
   /**
    * Disconnect from server
    */
@@ -259,6 +555,8 @@ export class XFilesClient {
     }
 
     this.connected = false;
+    this.watchers.clear();
+    this.rejectConnectionWaiters(new Error('Client disconnect'));
   }
 
   /**
@@ -312,6 +610,16 @@ export class XFilesClient {
     return this.request<FileEntry[]>('list', { path });
   }
 
+  /**
+   * List one page of a directory, sorted on the server
+   * @param path Directory path to list
+   * @param options Page size, offset or cursor, and sort order
+   * @returns Page with its entries, the directory's total entry count and a cursor for the next page
+   */
+  async listPage(path: string, options: ListOptions = {}): Promise<DirectoryPage> {
+    return this.request<DirectoryPage>('list', { path, options });
+  }
+
   /**
    * Get file or directory stats
    * @param path Path to get stats for
@@ -325,9 +633,13 @@ export class XFilesClient {
    * Read file contents
    * @param path File path to read
    * @param encoding Text encoding (default: 'utf-8')
-   * @returns Object with content and size
+   * @returns Object with content, size and version (to pass as `ifMatch` when saving)
    */
-  async readFile(path: string, encoding: string = 'utf-8'): Promise<{ content: string; size: number }> {
+  async readFile(path: string, encoding: string = 'utf-8'): Promise<{ content: string; size: number; version?: string }> {
+    if (this.useBinaryFrames() && isUtf8(encoding)) {
+      const { content, ...rest } = await this.request<{ content: Uint8Array; size: number; version?: string }>('read', { path, binary: true });
+      return { content: textDecoder.decode(content), ...rest };
+    }
     return this.request('read', { path, encoding });
   }
 
@@ -336,10 +648,20 @@ export class XFilesClient {
    * @param path File path to write
    * @param content Content to write
    * @param encoding Text encoding (default: 'utf-8')
-   * @returns Object with path and size
+   * @param options `ifMatch`: only write if the file is still at this version
+   * @returns Object with path, size and the new version
    */
-  async writeFile(path: string, content: string, encoding: string = 'utf-8'): Promise<{ path: string; size: number }> {
-    return this.request('write', { path, content, encoding });
+  async writeFile(
+    path: string,
+    content: string,
+    encoding: string = 'utf-8',
+    options: Precondition = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const { ifMatch } = options;
+    if (this.useBinaryFrames() && isUtf8(encoding)) {
+      return this.request('write', { path, content: textEncoder.encode(content), ifMatch });
+    }
+    return this.request('write', { path, content, encoding, ifMatch });
   }
 
   /**
@@ -354,30 +676,78 @@ export class XFilesClient {
   /**
    * Delete file or directory
    * @param path Path to delete
-   * @returns Object with deleted path
+   * @param options `ifMatch` precondition, abort signal and progress callback (entries and bytes deleted)
+   * @returns Object with deleted path (and its trash id if the server has trash enabled)
    */
-  async deleteItem(path: string): Promise<{ deleted: string }> {
-    return this.request('delete', { path });
+  async deleteItem(path: string, options: DeleteOptions = {}): Promise<{ deleted: string; trashId?: string }> {
+    const { ifMatch, signal, onProgress } = options;
+    return this.request('delete', { path, ifMatch }, { signal, onProgress });
+  }
+
+  /**
+   * List deleted items (requires trash on the server)
+   * @param path Only list the trash of the root containing this path
+   * @returns Items, most recently deleted first
+   */
+  async listTrash(path?: string): Promise<TrashItem[]> {
+    return this.request('trash-list', { path });
+  }
+
+  /**
+   * Restore a deleted item
+   * @param id Trash id of the item
+   * @param options Destination and conflict handling
+   * @returns Object with the restored path
+   */
+  async restoreFromTrash(id: string, options: RestoreOptions = {}): Promise<{ path: string }> {
+    return this.request('trash-restore', { id, ...options });
+  }
+
+  /**
+   * Delete an item from the trash permanently, or empty the trash
+   * @param id Trash id of the item (omit to empty the trash)
+   * @returns Number of purged items
+   */
+  async purgeTrash(id?: string): Promise<{ purged: number }> {
+    return this.request('trash-purge', { id });
   }
 
   /**
    * Rename or move file/directory
    * @param oldPath Current path
    * @param newPath New path
+   * @param options `ifMatch`: only rename if the item is still at this version
    * @returns Object with old and new paths
    */
-  async rename(oldPath: string, newPath: string): Promise<{ oldPath: string; newPath: string }> {
-    return this.request('rename', { oldPath, newPath });
+  async rename(oldPath: string, newPath: string, options: Precondition = {}): Promise<{ oldPath: string; newPath: string }> {
+    return this.request('rename', { oldPath, newPath, ifMatch: options.ifMatch });
   }
 
   /**
    * Copy file or directory
    * @param source Source path
    * @param destination Destination path
+   * @param options Abort signal and progress callback (entries and bytes copied)
    * @returns Object with source and destination paths
    */
-  async copy(source: string, destination: string): Promise<{ source: string; destination: string }> {
-    return this.request('copy', { source, destination });
+  async copy(
+    source: string,
+    destination: string,
+    options: OperationOptions = {}
+  ): Promise<{ source: string; destination: string }> {
+    return this.request('copy', { source, destination }, options);
+  }
+
+  /**
+   * Unpack a .zip, .tar or .tar.gz archive on the server
+   * @param path Archive to extract
+   * @param destination Directory to extract into (created if missing)
+   * @param options Format, overwrite, abort signal and progress callback
+   * @returns Extracted directory with counts of files, directories, bytes and skipped entries
+   */
+  async extract(path: string, destination: string, options: ExtractArchiveOptions = {}): Promise<ExtractResult> {
+    const { signal, onProgress, ...extractOptions } = options;
+    return this.request('extract', { path, destination, ...extractOptions }, { signal, onProgress });
   }
 
   /**
@@ -389,19 +759,117 @@ export class XFilesClient {
     return this.request('exists', { path });
   }
 
+  /**
+   * Get the effective permissions for a path (after the server's access rules)
+   * @param path Path to check
+   * @returns Object with read, write and delete flags
+   */
+  async getPermissions(path: string): Promise<PathPermissions> {
+    return this.request('permissions', { path });
+  }
+
+  /**
+   * Get the storage usage of the root containing a path
+   * @param path Any path inside the root
+   * @returns Root, used bytes/files and limits (only the root if it has no quota)
+   */
+  async getQuota(path: string): Promise<QuotaInfo> {
+    return this.request('quota', { path });
+  }
+
+  /**
+   * Take an exclusive edit lease on a path, or renew the one this connection holds.
+   * While it lasts, other connections can't write, rename or delete the path.
+   * It ends when released, when the TTL runs out, or when this connection closes.
+   * @param path Path to lock
+   * @param ttl Lease duration (ms, default 1 minute, max 10 minutes); renew before it runs out
+   * @returns The lease (fails with code 'LOCKED' and the other lease if someone else holds one)
+   */
+  async lock(path: string, ttl?: number): Promise<FileLock> {
+    return this.request('lock', { path, ttl });
+  }
+
+  /**
+   * Release this connection's edit lease on a path
+   * @param path Locked path
+   * @returns Whether a lease was released (false if it had already expired)
+   */
+  async unlock(path: string): Promise<{ unlocked: boolean }> {
+    return this.request('unlock', { path });
+  }
+
+  /**
+   * Compute the checksum of a file on the server (streamed, so not limited by maxFileSize)
+   * @param path File path
+   * @param algorithm Checksum algorithm (default: 'sha256')
+   * @param expected Checksum to verify against (hex, case-insensitive)
+   * @returns Object with the hex checksum, the size, and whether it matches `expected` (if given)
+   */
+  async hash(path: string, algorithm: HashAlgorithm = 'sha256', expected?: string): Promise<HashResult> {
+    return this.request('hash', { path, algorithm, expected });
+  }
+
+  /**
+   * Measure the total size of a directory tree on the server
+   * @param path Directory to measure
+   * @param options Abort signal and progress callback for running totals
+   * @returns Object with total bytes and counts of files and directories below the path
+   */
+  async diskUsage(path: string, options: DiskUsageOptions = {}): Promise<DiskUsage> {
+    const { signal, onProgress } = options;
+    return this.request('du', { path }, { signal, onProgress });
+  }
+
   /**
    * Search for files matching pattern
    * @param path Directory to search in
-   * @param pattern Regex pattern to match file names
-   * @param options Search options
+   * @param pattern Regex (or glob, with mode: 'glob') to match file names
+   * @param options Search mode, filters, abort signal and progress callback (entries searched)
    * @returns Array of matching file entries
    */
   async search(
     path: string,
     pattern: string,
-    options?: { recursive?: boolean; maxResults?: number }
+    options: SearchFilesOptions = {}
   ): Promise<FileEntry[]> {
-    return this.request<FileEntry[]>('search', { path, pattern, options });
+    const { signal, onProgress, ...searchOptions } = options;
+    return this.request<FileEntry[]>('search', { path, pattern, options: searchOptions }, { signal, onProgress });
+  }
+
+  /**
+   * Search file contents; matching files arrive as soon as they are found.
+   * Binary files and files above the size cap are skipped.
+   * @param path Directory to search in
+   * @param pattern Regex pattern to match lines against
+   * @param options Search options
+   * @returns Stream of matching files with their matching lines (async-iterable in Node.js)
+   */
+  searchContent(path: string, pattern: string, options: ContentSearchOptions = {}): ReadableStream<ContentMatch> {
+    const aborter = new AbortController();
+    let cancelled = false;
+
+    return new ReadableStream<ContentMatch>({
+      start: (controller) => {
+        this.request('search-content', { path, pattern, options }, {
+          signal: aborter.signal,
+          onMatch: (match) => {
+            if (!cancelled) controller.enqueue(match);
+          },
+        }).then(
+          () => {
+            if (!cancelled) controller.close();
+          },
+          (error) => {
+            if (!cancelled) controller.error(error);
+          }
+        );
+      },
+      cancel: () => {
+        cancelled = true;
+        // Stops the search on the server
+        aborter.abort();
+      },
+    });
   }
 
   /**
@@ -410,26 +878,97 @@ export class XFilesClient {
    * @param content Content to upload (string for text, base64 string for binary)
    * @param encoding Text encoding (default: 'utf-8')
    * @param isBinary Whether the content is binary data (base64 encoded)
-   * @returns Object with path and size
+   * @param options `ifMatch`: only replace the file if it is still at this version
+   * @returns Object with path, size and the new version
    */
   async uploadFile(
     path: string,
     content: string,
     encoding: string = 'utf-8',
-    isBinary: boolean = false
-  ): Promise<{ path: string; size: number }> {
-    return this.request('upload', { path, content, encoding, isBinary });
+    isBinary: boolean = false,
+    options: Precondition = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const { ifMatch } = options;
+    if (this.useBinaryFrames() && (isBinary || isUtf8(encoding))) {
+      const bytes = isBinary ? fromBase64(content) : textEncoder.encode(content);
+      return this.request('upload', { path, content: bytes, isBinary: true, ifMatch });
+    }
+    return this.request('upload', { path, content, encoding, isBinary, ifMatch });
   }
 
   /**
    * Upload binary file content to the server
    * @param path File path to upload to
    * @param buffer Binary data as Buffer or Uint8Array
-   * @returns Object with path and size
+   * @param options `ifMatch`: only replace the file if it is still at this version
+   * @returns Object with path, size and the new version
    */
-  async uploadBinary(path: string, buffer: Buffer | Uint8Array): Promise<{ path: string; size: number }> {
+  async uploadBinary(
+    path: string,
+    buffer: Buffer | Uint8Array,
+    options: Precondition = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    if (this.useBinaryFrames()) {
+      return this.request('upload', { path, content: buffer, isBinary: true, ifMatch: options.ifMatch });
+    }
     const content = Buffer.from(buffer).toString('base64');
-    return this.uploadFile(path, content, 'utf-8', true);
+    return this.uploadFile(path, content, 'utf-8', true, options);
+  }
+
+  /**
+   * Upload a large file in numbered chunks.
+   * Survives reconnects: the upload resumes from the last offset the server acknowledged.
+   * @param path File path to upload to
+   * @param data File content as Buffer, Uint8Array or Blob (e.g. a File from an input)
+   * @param options Chunk size, progress callback and `ifMatch` (checked at the start and again at the end)
+   * @returns Object with path, size and the new version
+   */
+  async uploadChunked(
+    path: string,
+    data: Uint8Array | Blob,
+    options: UploadOptions = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const total = data instanceof Uint8Array ? data.byteLength : data.size;
+    const chunkSize = Math.min(options.chunkSize ?? 1024 * 1024, this.serverConfig?.maxFileSize ?? Infinity);
+
+    let session = await this.request<UploadSession>('upload-begin', { path, size: total, ifMatch: options.ifMatch });
+
+    try {
+      for (;;) {
+        try {
+          while (session.offset < total) {
+            const end = Math.min(session.offset + chunkSize, total);
+            const chunk = data instanceof Uint8Array
+              ? data.subarray(session.offset, end)
+              : new Uint8Array(await data.slice(session.offset, end).arrayBuffer());
+
+            session = await this.request<UploadSession>('upload-chunk', {
+              uploadId: session.uploadId,
+              index: session.nextIndex,
+              content: this.useBinaryFrames() ? chunk : toBase64(chunk),
+            });
+            options.onProgress?.(session.offset, total);
+          }
+
+          return await this.request('upload-commit', { uploadId: session.uploadId });
+        } catch (error) {
+          if (this.connected) throw error;
+
+          // Connection dropped: resume from what the server has
+          await this.waitForConnection();
+          session = await this.request<UploadSession>('upload-begin', {
+            path,
+            size: total,
+            uploadId: session.uploadId,
+          });
+        }
+      }
+    } catch (error) {
+      if (this.connected) {
+        this.request('upload-abort', { uploadId: session.uploadId }).catch(() => {});
+      }
+      throw error;
+    }
   }
 
   /**
@@ -439,19 +978,219 @@ export class XFilesClient {
    * @returns Object with content, size, and binary flag
    */
   async downloadFile(path: string, asBinary: boolean = false): Promise<{ content: string; size: number; isBinary: boolean }> {
+    if (this.useBinaryFrames()) {
+      const result = await this.request<{ content: Uint8Array; size: number; isBinary: boolean }>(
+        'download',
+        { path, asBinary, binary: true }
+      );
+      return {
+        content: result.isBinary ? toBase64(result.content) : textDecoder.decode(result.content),
+        size: result.size,
+        isBinary: result.isBinary,
+      };
+    }
     return this.request('download', { path, asBinary });
   }
 
+  /**
+   * Stream a file, or a byte range of it, without the maxFileSize limit
+   * @param path File path to download
+   * @param options Byte range, chunk size and progress callback
+   * @returns Stream of file bytes (async-iterable in Node.js)
+   */
+  downloadStream(path: string, options: DownloadOptions = {}): ReadableStream<Uint8Array> {
+    const { start, end, chunkSize, onProgress } = options;
+    return this.streamChunks('download-stream', { path, start, end, chunkSize }, onProgress);
+  }
+
+  /**
+   * Stream a zip archive of files and directories, built on the fly by the server
+   * @param paths Files and directories to include (each under its own name)
+   * @param options Chunk size and progress callback (total is 0, as the size isn't known in advance)
+   * @returns Stream of zip bytes (async-iterable in Node.js)
+   */
+  downloadZip(paths: string | string[], options: Omit<DownloadOptions, 'start' | 'end'> = {}): ReadableStream<Uint8Array> {
+    const { chunkSize, onProgress } = options;
+    return this.streamChunks('download-zip', { paths: [paths].flat(), chunkSize }, onProgress);
+  }
+
+  /**
+   * Turn the chunk messages of a streaming request into a byte stream
+   */
+  private streamChunks(
+    type: string,
+    params: Record<string, any>,
+    onProgress?: (received: number, total: number) => void
+  ): ReadableStream<Uint8Array> {
+    const aborter = new AbortController();
+    let cancelled = false;
+    let requestId = 0;
+    let enqueued = 0;
+    let acknowledged = 0;
+
+    return new ReadableStream<Uint8Array>(
+      {
+        start: (controller) => {
+          let received = 0;
+          let nextIndex = 0;
+
+          this.request(type, { ...params, binary: this.useBinaryFrames(), window: STREAM_WINDOW }, {
+            signal: aborter.signal,
+            onSent: (id) => {
+              // A retried request starts over
+              requestId = id;
+              nextIndex = enqueued = acknowledged = 0;
+            },
+            onChunk: (chunk) => {
+              if (cancelled) return;
+              if (chunk.index !== nextIndex++) {
+                cancelled = true;
+                aborter.abort();
+                controller.error(new Error(`Unexpected chunk ${chunk.index} (expected ${nextIndex - 1})`));
+                return;
+              }
+
+              const bytes = typeof chunk.content === 'string' ? fromBase64(chunk.content) : chunk.content;
+              received += bytes.length;
+              controller.enqueue(bytes);
+              enqueued++;
+              onProgress?.(received, chunk.total);
+            },
+          }).then(
+            () => {
+              if (!cancelled) controller.close();
+            },
+            (error) => {
+              if (!cancelled) controller.error(error);
+            }
+          );
+        },
+        // Called as the reader makes room: tell the server how far it got,
+        // so it sends at most STREAM_WINDOW chunks ahead
+        pull: (controller) => {
+          const consumed = enqueued - Math.max(0, STREAM_WINDOW / 2 - (controller.desiredSize ?? 0));
+          if (requestId && !cancelled && consumed - acknowledged >= STREAM_WINDOW / 4) {
+            acknowledged = consumed;
+            this.sendRequest('stream-ack', { target: requestId, consumed }, {}).catch(() => {});
+          }
+        },
+        cancel: () => {
+          cancelled = true;
+          // Stops the stream on the server
+          aborter.abort();
+        },
+      },
+      new CountQueuingStrategy({ highWaterMark: STREAM_WINDOW / 2 })
+    );
+  }
+
   /**
    * Download binary file content from the server as Buffer
    * @param path File path to download
    * @returns Buffer with file content and size
    */
   async downloadBinary(path: string): Promise<{ buffer: Buffer; size: number }> {
+    if (this.useBinaryFrames()) {
+      const { content, size } = await this.request<{ content: Uint8Array; size: number }>(
+        'download',
+        { path, asBinary: true, binary: true }
+      );
+      return {
+        buffer: Buffer.from(content.buffer, content.byteOffset, content.byteLength),
+        size
+      };
+    }
+
     const result = await this.downloadFile(path, true);
     return {
       buffer: Buffer.from(result.content, 'base64'),
       size: result.size
     };
   }
+
+  /**
+   * Watch a directory for changes
+   * @param path Directory path to watch
+   * @param callback Called for every create/modify/delete/rename inside the directory,
+   *   and when an entry is locked or unlocked. An 'error' event means the watch
+   *   has ended (the directory was removed or became unreadable).
+   * @param options Watch options
+   * @returns Function that stops watching
+   */
+  async watch(
+    path: string,
+    callback: (event: WatchEvent) => void,
+    options: WatchOptions = {}
+  ): Promise<() => Promise<void>> {
+    const { watchId } = await this.request<{ watchId: number }>('watch', { path, options });
+    const subscription: WatchSubscription = { path, options, callback, watchId, active: true };
+    this.watchers.set(watchId, subscription);
+
+    return async () => {
+      if (!subscription.active) return;
+      subscription.active = false;
+
+      // A subscription still being re-established is dropped once it resolves
+      if (this.watchers.get(subscription.watchId) !== subscription) return;
+      this.watchers.delete(subscription.watchId);
+      if (this.connected) {
+        await this.request('unwatch', { watchId: subscription.watchId });
+      }
+    };
+  }
+}
+
+/**
+ * Chunks a streamed download may run ahead of the reader
+ */
+const STREAM_WINDOW = 16;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Error for a request the caller aborted
+ */
+function cancelledError(): XFilesError {
+  const error: XFilesError = new Error('Operation cancelled');
+  error.code = 'CANCELLED';
+  return error;
+}
+
+/**
+ * Whether an encoding name means UTF-8 (the only text encoding sent as binary frames)
+ */
+function isUtf8(encoding: string): boolean {
+  return /^utf-?8$/i.test(encoding);
+}
+
+/**
+ * Base64-encode bytes in Node.js and browsers
+ */
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64-decode bytes in Node.js and browsers
+ */
+function fromBase64(content: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(content, 'base64');
+  }
+
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
 }
@@ -0,0 +1,614 @@
+/**
+ * x-files.js Archive Reader
+ *
+ * Reads zip, tar and gzip-compressed tar archives through a
+ * FileSystemProvider, without external binaries. Zip archives are read
+ * from their central directory, so their entries and totals are known up
+ * front; tar archives are read as a stream, one entry at a time.
+ * ArchiveTree arranges the entries as directories for browsing.
+ *
+ * Entry paths are returned as stored: callers must check them before
+ * using them as file system paths.
+ */
+
+import * as path from 'path';
+import { Readable, pipeline } from 'stream';
+import * as zlib from 'zlib';
+import type { ArchiveFormat } from '../shared/types.js';
+import type { FileSystemProvider } from './provider.js';
+import { crc32 } from './zip.js';
+
+/**
+ * File, directory or other item stored in an archive
+ */
+export interface ArchiveEntry {
+  /** Path inside the archive, '/'-separated, without leading or trailing '/' */
+  path: string;
+  /** Kind of entry ('other' covers hard links, devices, ...) */
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  /** Uncompressed size (bytes; 0 for directories) */
+  size: number;
+  /** Last modified date */
+  modified: Date;
+}
+
+/**
+ * Entry with access to its content.
+ * For tar archives the content can only be read before the next item is requested.
+ */
+export interface ArchiveItem {
+  entry: ArchiveEntry;
+  content(): AsyncIterable<Buffer>;
+}
+
+/**
+ * Opened archive
+ */
+export interface Archive {
+  /** Number of entries, if known without reading the whole archive (zip) */
+  totalEntries?: number;
+  /** Uncompressed size of all entries as declared by the archive (zip) */
+  totalBytes?: number;
+  /** Entries in archive order */
+  items(): AsyncGenerator<ArchiveItem>;
+}
+
+/**
+ * Detect the archive format from a file name
+ */
+export function archiveFormat(fileName: string): ArchiveFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar')) return 'tar';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+  return null;
+}
+
+/**
+ * Open an archive for reading
+ */
+export async function openArchive(provider: FileSystemProvider, filePath: string, format: ArchiveFormat): Promise<Archive> {
+  if (format === 'zip') {
+    const entries = await readZipDirectory(provider, filePath);
+    return {
+      totalEntries: entries.length,
+      totalBytes: entries.reduce((total, entry) => total + entry.entry.size, 0),
+      items: async function* () {
+        for (const entry of entries) {
+          yield { entry: entry.entry, content: () => readZipContent(provider, filePath, entry) };
+        }
+      },
+    };
+  }
+
+  return {
+    items: () => {
+      const source = provider.createReadStream(filePath);
+      return readTar(format === 'tar.gz' ? decompress(source, zlib.createGunzip()) : source);
+    },
+  };
+}
+
+/**
+ * Split a path that goes into an archive (`/data/bundle.zip!/docs/readme.md`)
+ * into the archive file and the entry path inside it ('' for the archive's
+ * root). Returns null for ordinary paths.
+ */
+export function splitArchivePath(filePath: string): { archive: string; entry: string } | null {
+  for (let i = filePath.indexOf('!'); i >= 0; i = filePath.indexOf('!', i + 1)) {
+    const rest = filePath.slice(i + 1);
+    if (rest !== '' && rest[0] !== '/' && rest[0] !== '\\') continue;
+
+    const archive = filePath.slice(0, i);
+    if (archiveFormat(archive)) {
+      return { archive, entry: rest.split(/[\\/]/).filter(Boolean).join('/') };
+    }
+  }
+  return null;
+}
+
+/**
+ * Entries of an archive arranged as a directory tree, to browse it without
+ * extracting it. Directories the archive doesn't list are implied by the
+ * entries below them; links, special files, entries that climb out of the
+ * archive and later duplicates of a path are left out.
+ */
+export class ArchiveTree {
+  private entries = new Map<string, ArchiveEntry>();
+  private children = new Map<string, ArchiveEntry[]>();
+
+  constructor(entries: ArchiveEntry[], private modified: Date) {
+    this.entries.set('', { path: '', type: 'directory', size: 0, modified });
+    this.children.set('', []);
+
+    for (const entry of entries) {
+      if (entry.type !== 'file' && entry.type !== 'directory') continue;
+      if (entry.path === '' || entry.path.split('/').includes('..')) continue;
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Read the entries of an archive, failing once there are more than maxEntries
+   */
+  static async read(provider: FileSystemProvider, filePath: string, format: ArchiveFormat, maxEntries: number): Promise<ArchiveTree> {
+    const archive = await openArchive(provider, filePath, format);
+    const tooMany = (count: number) => new Error(`Too many archive entries to browse: ${count} (max: ${maxEntries})`);
+    if (archive.totalEntries !== undefined && archive.totalEntries > maxEntries) {
+      throw tooMany(archive.totalEntries);
+    }
+
+    const entries: ArchiveEntry[] = [];
+    for await (const { entry } of archive.items()) {
+      if (entries.length === maxEntries) throw tooMany(entries.length + 1);
+      entries.push(entry);
+    }
+
+    const { mtime } = await provider.stat(filePath);
+    return new ArchiveTree(entries, mtime);
+  }
+
+  /**
+   * Get an entry ('' is the archive's root)
+   */
+  get(entryPath: string): ArchiveEntry | undefined {
+    return this.entries.get(entryPath);
+  }
+
+  /**
+   * Get the entries directly inside a directory (undefined if it isn't one)
+   */
+  list(dirPath: string): ArchiveEntry[] | undefined {
+    return this.children.get(dirPath);
+  }
+
+  private add(entry: ArchiveEntry): void {
+    const existing = this.entries.get(entry.path);
+    if (existing) {
+      // Directories implied earlier take the archive's own metadata
+      if (existing.type === 'directory' && entry.type === 'directory') {
+        existing.modified = entry.modified;
+      }
+      return;
+    }
+
+    const parent = parentOf(entry.path);
+    if (!this.addDirectory(parent)) return;
+
+    const stored = { ...entry };
+    this.entries.set(entry.path, stored);
+    this.children.get(parent)!.push(stored);
+    if (entry.type === 'directory') {
+      this.children.set(entry.path, []);
+    }
+  }
+
+  /**
+   * Make sure a directory and its parents exist (false if a file has the path)
+   */
+  private addDirectory(dirPath: string): boolean {
+    const existing = this.entries.get(dirPath);
+    if (existing) return existing.type === 'directory';
+
+    this.add({ path: dirPath, type: 'directory', size: 0, modified: this.modified });
+    return this.entries.get(dirPath)?.type === 'directory';
+  }
+}
+
+/**
+ * Read the content of one file in an archive
+ */
+export async function* readArchiveEntry(
+  provider: FileSystemProvider,
+  filePath: string,
+  format: ArchiveFormat,
+  entryPath: string
+): AsyncGenerator<Buffer> {
+  const archive = await openArchive(provider, filePath, format);
+  for await (const { entry, content } of archive.items()) {
+    if (entry.path === entryPath && entry.type === 'file') {
+      yield* content();
+      return;
+    }
+  }
+  throw new Error(`Not in archive: ${entryPath}`);
+}
+
+// Zip
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+/** End of central directory record plus the longest possible comment */
+const ZIP_TAIL_SIZE = 22 + 0xffff;
+
+/**
+ * Central directory entry with what is needed to read its content
+ */
+interface ZipEntry {
+  entry: ArchiveEntry;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  offset: number;
+}
+
+async function readZipDirectory(provider: FileSystemProvider, filePath: string): Promise<ZipEntry[]> {
+  const { size } = await provider.stat(filePath);
+  const tailStart = Math.max(0, size - ZIP_TAIL_SIZE);
+  const tail = await readRange(provider, filePath, tailStart, size - tailStart);
+
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error(`Not a zip archive: ${filePath}`);
+  }
+
+  let count = tail.readUInt16LE(end + 10);
+  let directorySize = tail.readUInt32LE(end + 12);
+  let directoryOffset = tail.readUInt32LE(end + 16);
+
+  if (count === MAX_16 || directorySize === MAX_32 || directoryOffset === MAX_32) {
+    const locator = end - 20;
+    if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR) {
+      throw new Error(`Invalid zip archive: ${filePath}`);
+    }
+    const record = await readRange(provider, filePath, readUInt64(tail, locator + 8), 56);
+    if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error(`Invalid zip archive: ${filePath}`);
+    }
+    count = readUInt64(record, 32);
+    directorySize = readUInt64(record, 40);
+    directoryOffset = readUInt64(record, 48);
+  }
+
+  if (directoryOffset + directorySize > size) {
+    throw new Error(`Invalid zip archive: ${filePath}`);
+  }
+
+  const directory = await readRange(provider, filePath, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+
+  for (let pos = 0, i = 0; i < count; i++) {
+    if (pos + 46 > directory.length || directory.readUInt32LE(pos) !== ZIP_CENTRAL_HEADER) {
+      throw new Error(`Invalid zip archive: ${filePath}`);
+    }
+
+    const flags = directory.readUInt16LE(pos + 8);
+    const method = directory.readUInt16LE(pos + 10);
+    const time = directory.readUInt16LE(pos + 12);
+    const date = directory.readUInt16LE(pos + 14);
+    const crc = directory.readUInt32LE(pos + 16);
+    let compressedSize = directory.readUInt32LE(pos + 20);
+    let entrySize = directory.readUInt32LE(pos + 24);
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    const attributes = directory.readUInt32LE(pos + 38);
+    let offset = directory.readUInt32LE(pos + 42);
+
+    const nameStart = pos + 46;
+    const rawName = directory.subarray(nameStart, nameStart + nameLength);
+    // Bit 11: UTF-8 names; older archives use the DOS code page
+    const name = rawName.toString(flags & 0x0800 ? 'utf-8' : 'latin1');
+
+    // Zip64 values appear in order, only for fields set to their maximum
+    const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+    for (let e = 0; e + 4 <= extra.length; e += 4 + extra.readUInt16LE(e + 2)) {
+      if (extra.readUInt16LE(e) !== ZIP64_EXTRA) continue;
+      let field = e + 4;
+      if (entrySize === MAX_32) { entrySize = readUInt64(extra, field); field += 8; }
+      if (compressedSize === MAX_32) { compressedSize = readUInt64(extra, field); field += 8; }
+      if (offset === MAX_32) { offset = readUInt64(extra, field); }
+    }
+
+    if (flags & 0x0001) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+
+    const mode = attributes >>> 16;
+    const isDirectory = name.endsWith('/') || (mode & 0o170000) === 0o040000;
+    const isSymlink = (mode & 0o170000) === 0o120000;
+
+    entries.push({
+      entry: {
+        path: normalizeEntryPath(name),
+        type: isDirectory ? 'directory' : isSymlink ? 'symlink' : 'file',
+        size: isDirectory ? 0 : entrySize,
+        modified: fromDosTime(time, date),
+      },
+      method,
+      crc,
+      compressedSize,
+      offset,
+    });
+
+    pos = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function* readZipContent(provider: FileSystemProvider, filePath: string, zipEntry: ZipEntry): AsyncGenerator<Buffer> {
+  const { entry, method, crc, compressedSize, offset } = zipEntry;
+  if (entry.type === 'directory') return;
+
+  if (method !== 0 && method !== 8) {
+    throw new Error(`Unsupported compression method ${method}: ${entry.path}`);
+  }
+
+  const header = await readRange(provider, filePath, offset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`Invalid zip entry: ${entry.path}`);
+  }
+  const start = offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+  const raw: AsyncIterable<Buffer> = compressedSize > 0
+    ? provider.createReadStream(filePath, { start, end: start + compressedSize - 1 })
+    : Readable.from([]);
+  const content = method === 8 ? decompress(raw, zlib.createInflateRaw()) : raw;
+
+  // Sizes come from the archive and may lie: never produce more than declared
+  let size = 0;
+  let checksum = 0;
+  for await (const data of content) {
+    size += data.length;
+    if (size > entry.size) {
+      throw new Error(`Archive entry larger than declared: ${entry.path}`);
+    }
+    checksum = crc32(data, checksum);
+    yield data;
+  }
+
+  if (size !== entry.size || checksum !== crc) {
+    throw new Error(`Corrupt archive entry: ${entry.path}`);
+  }
+}
+
+// Tar
+
+const TAR_BLOCK = 512;
+
+async function* readTar(source: AsyncIterable<Buffer>): AsyncGenerator<ArchiveItem> {
+  const reader = new ByteReader(source);
+  let longName: string | null = null;
+  let pax: Record<string, string> = {};
+
+  try {
+    for (;;) {
+      const header = await reader.read(TAR_BLOCK);
+      // Archives should end with two zero blocks, but some just stop
+      if (header.length === 0 || header.every((byte) => byte === 0)) break;
+      if (header.length < TAR_BLOCK) {
+        throw new Error('Unexpected end of tar archive');
+      }
+      verifyTarChecksum(header);
+
+      const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+      const headerSize = parseTarNumber(header, 124, 12);
+      const padding = (TAR_BLOCK - (headerSize % TAR_BLOCK)) % TAR_BLOCK;
+
+      // Extension headers describe the entry that follows them
+      if (type === 'L' || type === 'x' || type === 'g' || type === 'K') {
+        const data = (await reader.read(headerSize + padding)).subarray(0, headerSize);
+        if (type === 'L') longName = readTarString(data, 0, data.length);
+        if (type === 'x') pax = { ...pax, ...parsePax(data) };
+        continue;
+      }
+
+      const prefix = readTarString(header, 345, 155);
+      const shortName = readTarString(header, 0, 100);
+      const name = pax.path ?? longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+      const size = pax.size !== undefined ? parsePaxSize(pax.size) : headerSize;
+      const mtime = (pax.mtime !== undefined ? Number(pax.mtime) : parseTarNumber(header, 136, 12)) || 0;
+      longName = null;
+      pax = {};
+
+      const entryType: ArchiveEntry['type'] =
+        type === '5' ? 'directory'
+        : type === '0' || type === '7' ? 'file'
+        : type === '2' ? 'symlink'
+        : 'other';
+      const dataEnd = reader.position + size;
+
+      yield {
+        entry: {
+          path: normalizeEntryPath(name),
+          type: entryType,
+          size: entryType === 'directory' ? 0 : size,
+          modified: new Date(mtime * 1000),
+        },
+        content: () => reader.stream(entryType === 'file' ? size : 0),
+      };
+
+      // Skip whatever of the content wasn't read, and the block padding
+      await reader.skip(dataEnd - reader.position + (TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+function verifyTarChecksum(header: Buffer): void {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    // The checksum field counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  if (sum !== parseTarNumber(header, 148, 8)) {
+    throw new Error('Invalid tar header checksum');
+  }
+}
+
+/**
+ * Parse an octal number field, or a base-256 one (high bit set) for large values
+ */
+function parseTarNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + header[offset + i];
+    }
+    return value;
+  }
+
+  const text = readTarString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readTarString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * Parse pax extended header records ("<length> <key>=<value>\n")
+ */
+/**
+ * Parse the size a pax header gives an entry
+ */
+function parsePaxSize(value: string): number {
+  const size = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isSafeInteger(size)) {
+    throw new Error(`Invalid tar entry size: ${value}`);
+  }
+  return size;
+}
+
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let pos = 0;
+
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const length = parseInt(data.subarray(pos, space).toString(), 10);
+    if (space < 0 || !(length > 0)) break;
+
+    const record = data.subarray(space + 1, pos + length - 1).toString('utf-8');
+    const equals = record.indexOf('=');
+    if (equals > 0) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    pos += length;
+  }
+
+  return records;
+}
+
+/**
+ * Reads exact byte counts from a stream of buffers
+ */
+class ByteReader {
+  position = 0;
+  private buffer: Buffer = Buffer.alloc(0);
+  private iterator: AsyncIterator<Buffer>;
+  private done = false;
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Read the next length bytes (fewer only at the end of the input)
+   */
+  async read(length: number): Promise<Buffer> {
+    while (this.buffer.length < length && (await this.fill()));
+    const data = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(data.length);
+    this.position += data.length;
+    return data;
+  }
+
+  /**
+   * Yield the next length bytes as they arrive
+   */
+  async *stream(length: number): AsyncGenerator<Buffer> {
+    let remaining = length;
+    while (remaining > 0) {
+      if (this.buffer.length === 0 && !(await this.fill())) {
+        throw new Error('Unexpected end of archive');
+      }
+      const data = this.buffer.subarray(0, Math.min(remaining, this.buffer.length));
+      this.buffer = this.buffer.subarray(data.length);
+      this.position += data.length;
+      remaining -= data.length;
+      yield data;
+    }
+  }
+
+  async skip(length: number): Promise<void> {
+    for await (const _ of this.stream(length)) {
+      // Discard
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.iterator.return?.();
+  }
+
+  private async fill(): Promise<boolean> {
+    if (this.done) return false;
+
+    const { value, done } = await this.iterator.next();
+    if (done) {
+      this.done = true;
+      return false;
+    }
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, value]) : value;
+    return true;
+  }
+}
+
+// Helpers
+
+function decompress(source: AsyncIterable<Buffer>, transform: zlib.Gunzip | zlib.InflateRaw): AsyncIterable<Buffer> {
+  // pipeline destroys both sides if either fails, so errors reach the reader
+  pipeline(Readable.from(source), transform, () => {});
+  return transform;
+}
+
+async function readRange(provider: FileSystemProvider, filePath: string, start: number, length: number): Promise<Buffer> {
+  if (length <= 0) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of provider.createReadStream(filePath, { start, end: start + length - 1 })) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  return Number(buffer.readBigUInt64LE(offset));
+}
+
+function normalizeEntryPath(name: string): string {
+  return path.posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/)+/, '').replace(/^\/+|\/+$/g, '');
+}
+
+function fromDosTime(time: number, date: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+function parentOf(entryPath: string): string {
+  const slash = entryPath.lastIndexOf('/');
+  return slash < 0 ? '' : entryPath.slice(0, slash);
+}
@@ -0,0 +1,208 @@
+/**
+ * x-files.js Audit Log
+ *
+ * XFilesHandler reports every operation it processes to the configured
+ * audit sinks. A sink is a callback or an object with a `write` method;
+ * two are included: a rotating JSON-lines file and an in-memory ring buffer.
+ *
+ * @example
+ * ```typescript
+ * import { XFilesHandler, FileAuditSink, MemoryAuditSink } from 'x-files.js';
+ *
+ * const recent = new MemoryAuditSink({ capacity: 500 });
+ * const handler = new XFilesHandler({
+ *   allowedPaths: ['/data'],
+ *   audit: [new FileAuditSink({ path: '/var/log/x-files/audit.log' }), recent],
+ * });
+ *
+ * recent.query({ operation: 'delete', since: yesterday });
+ * ```
+ */
+
+import * as fs from 'fs/promises';
+import { isWithin } from './paths.js';
+
+/**
+ * Record of one processed operation
+ */
+export interface AuditEntry {
+  /** When the operation finished (ISO string) */
+  time: string;
+  /** `user` of the connection's session, if authenticate returned one */
+  user?: any;
+  /** Remote address of the connection */
+  address?: string;
+  /** Operation type */
+  operation: string;
+  /** Resolved target path (the source for rename/copy) */
+  path?: string;
+  /** Resolved destination path (rename/copy) */
+  destination?: string;
+  /** Bytes read or written, where the operation transfers content */
+  bytes?: number;
+  /** Whether the operation succeeded */
+  success: boolean;
+  /** Error message of a failed operation */
+  error?: string;
+  /** Processing time (ms) */
+  duration: number;
+}
+
+/**
+ * Destination for audit entries
+ */
+export type AuditSink =
+  | ((entry: AuditEntry) => void | Promise<void>)
+  | { write(entry: AuditEntry): void | Promise<void> };
+
+/**
+ * Options for FileAuditSink
+ */
+export interface FileAuditSinkOptions {
+  /** Log file path */
+  path: string;
+
+  /**
+   * Rotate once the file reaches this size (bytes)
+   * @default 10MB (10 * 1024 * 1024)
+   */
+  maxSize?: number;
+
+  /**
+   * Number of rotated files to keep (audit.log.1 is the newest)
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+/**
+ * Appends entries to a JSON-lines file, rotating it by size
+ */
+export class FileAuditSink {
+  private filePath: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private size: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: FileAuditSinkOptions) {
+    this.filePath = options.path;
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  write(entry: AuditEntry): Promise<void> {
+    // Serialize appends so lines never interleave and rotation sees a stable size
+    const line = `${JSON.stringify(entry)}\n`;
+    const result = this.queue.then(() => this.append(line));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Resolve once every pending entry has been written
+   */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      this.size = await fs.stat(this.filePath).then((stats) => stats.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.filePath, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    await fs.rm(`${this.filePath}.${this.maxFiles}`, { force: true });
+
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${this.filePath}.${i}`, `${this.filePath}.${i + 1}`).catch(() => {});
+    }
+
+    if (this.maxFiles > 0) {
+      await fs.rename(this.filePath, `${this.filePath}.1`);
+    } else {
+      await fs.rm(this.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Filter for MemoryAuditSink.query
+ */
+export interface AuditQuery {
+  /** Match entries whose user equals this, or whose user.id / user.name does */
+  user?: any;
+  /** Operation type(s) */
+  operation?: string | string[];
+  /** Entries whose path or destination is this path or inside it */
+  path?: string;
+  /** Only successful (true) or failed (false) operations */
+  success?: boolean;
+  /** Entries at or after this time */
+  since?: Date | string;
+  /** Entries before this time */
+  until?: Date | string;
+  /** Return at most this many (the most recent) entries */
+  limit?: number;
+}
+
+/**
+ * Keeps the most recent entries in memory
+ */
+export class MemoryAuditSink {
+  private entries: AuditEntry[] = [];
+  private capacity: number;
+
+  constructor(options: { capacity?: number } = {}) {
+    this.capacity = options.capacity ?? 1000;
+  }
+
+  write(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  /**
+   * Get matching entries, oldest first
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const operations = filter.operation === undefined ? null : [filter.operation].flat();
+    const since = filter.since === undefined ? null : new Date(filter.since).toISOString();
+    const until = filter.until === undefined ? null : new Date(filter.until).toISOString();
+
+    const matches = this.entries.filter((entry) =>
+      (filter.user === undefined || matchesUser(entry.user, filter.user)) &&
+      (!operations || operations.includes(entry.operation)) &&
+      (filter.path === undefined || [entry.path, entry.destination].some((p) => p !== undefined && isWithin(p, filter.path!))) &&
+      (filter.success === undefined || entry.success === filter.success) &&
+      (!since || entry.time >= since) &&
+      (!until || entry.time < until)
+    );
+
+    return filter.limit === undefined ? matches : matches.slice(-filter.limit);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+function matchesUser(user: any, expected: any): boolean {
+  if (user === expected) return true;
+  return typeof user === 'object' && user !== null && (user.id === expected || user.name === expected);
+}
@@ -0,0 +1,71 @@
+/**
+ * x-files.js Backups
+ *
+ * With backups enabled, XFilesHandler copies a file next to itself before
+ * a write or upload replaces it: either to a single `name~` that each write
+ * overwrites, or to `name.<time>~` for every write, keeping the newest few.
+ */
+
+import * as path from 'path';
+import type { FileSystemProvider } from './provider.js';
+
+/**
+ * Options for backups
+ */
+export interface BackupOptions {
+  /**
+   * How backups are named:
+   * - 'tilde': `notes.md~`, holding the content before the last write
+   * - 'timestamp': `notes.md.20261019T193308123Z~` for each write
+   * @default 'tilde'
+   */
+  naming?: 'tilde' | 'timestamp';
+
+  /**
+   * Timestamped backups kept for each file, oldest removed first (0 keeps all)
+   * @default 10
+   */
+  keep?: number;
+}
+
+const TIMESTAMP_PATTERN = /^\d{8}T\d{9}Z$/;
+
+/**
+ * Names and prunes the backups of replaced files
+ */
+export class Backups {
+  private naming: 'tilde' | 'timestamp';
+  private keep: number;
+
+  constructor(private provider: FileSystemProvider, options: BackupOptions = {}) {
+    this.naming = options.naming ?? 'tilde';
+    this.keep = options.keep ?? 10;
+  }
+
+  /**
+   * Where to back up a file before it is replaced
+   */
+  pathFor(filePath: string, time = new Date()): string {
+    if (this.naming === 'tilde') {
+      return `${filePath}~`;
+    }
+    const stamp = time.toISOString().replace(/[-:.]/g, '');
+    return `${filePath}.${stamp}~`;
+  }
+
+  /**
+   * Timestamped backups of a file beyond the ones to keep, oldest first
+   */
+  async expired(filePath: string): Promise<string[]> {
+    if (this.naming === 'tilde' || this.keep === 0) return [];
+
+    const prefix = `${path.basename(filePath)}.`;
+    const names = (await this.provider.list(path.dirname(filePath)))
+      .filter((entry) => entry.isFile && entry.name.startsWith(prefix) && entry.name.endsWith('~'))
+      .map((entry) => entry.name)
+      .filter((name) => TIMESTAMP_PATTERN.test(name.slice(prefix.length, -1)))
+      .sort();
+
+    return names.slice(0, Math.max(0, names.length - this.keep)).map((name) => path.join(path.dirname(filePath), name));
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * x-files.js Disk Usage Cache
+ *
+ * Keeps the measured size of directory trees so `du` can answer again
+ * without walking them. The handler drops every cached tree containing a
+ * path it changes; changes made outside the handler are picked up once a
+ * result is older than maxAge.
+ */
+
+import type { DiskUsage } from '../shared/types.js';
+import { isWithin } from './paths.js';
+
+/**
+ * Measured directory trees, most recently measured last
+ */
+export class DiskUsageCache {
+  private entries = new Map<string, { usage: DiskUsage; time: number }>();
+
+  /**
+   * @param maxAge How long a result is trusted (ms)
+   * @param maxEntries How many directories are kept
+   */
+  constructor(private maxAge: number, private maxEntries: number) {}
+
+  /**
+   * Get the usage of a directory, if it was measured recently
+   */
+  get(dirPath: string): DiskUsage | undefined {
+    const entry = this.entries.get(dirPath);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.time > this.maxAge) {
+      this.entries.delete(dirPath);
+      return undefined;
+    }
+    return entry.usage;
+  }
+
+  /**
+   * Remember the usage of a directory
+   */
+  set(usage: DiskUsage): void {
+    this.entries.delete(usage.path);
+    this.entries.set(usage.path, { usage, time: Date.now() });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Forget every directory containing a changed path, and everything below it
+   */
+  invalidate(changedPath: string): void {
+    for (const dirPath of this.entries.keys()) {
+      if (isWithin(changedPath, dirPath) || isWithin(dirPath, changedPath)) {
+        this.entries.delete(dirPath);
+      }
+    }
+  }
+
+  /**
+   * Forget everything
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * x-files.js Operation Errors
+ */
+
+import type { ErrorCode } from '../shared/types.js';
+
+/**
+ * Error sent to the client with a machine-readable code.
+ * `details` are added to the result message next to the code.
+ */
+export class OperationError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
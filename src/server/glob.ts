@@ -0,0 +1,98 @@
+/**
+ * x-files.js Glob Matching
+ *
+ * Minimal glob-to-RegExp conversion for '/'-separated paths, without
+ * external dependencies. Supports `*`, `?`, `**`, `[abc]`, `[!abc]` and
+ * `{a,b}`. A trailing `/**` also matches the directory itself.
+ */
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(glob: string, options: { caseSensitive?: boolean } = {}): RegExp {
+  return new RegExp(`^${convert(glob)}$`, options.caseSensitive === false ? 'i' : '');
+}
+
+function convert(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] !== '*') {
+        source += '[^/]*';
+        continue;
+      }
+
+      const atSegmentStart = i === 0 || glob[i - 1] === '/';
+      const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      i++;
+
+      if (!atSegmentStart || !atSegmentEnd) {
+        // '**' inside a segment is just '*'
+        source += '[^/]*';
+      } else if (i + 1 === glob.length) {
+        // Trailing '**': everything below, including the directory itself
+        source = source.endsWith('/') ? `${source.slice(0, -1)}(?:/.*)?` : `${source}.*`;
+      } else {
+        // Leading or middle '**/': zero or more whole segments
+        source += '(?:.*/)?';
+        i++;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) {
+        body = `^${body.slice(1)}`;
+      }
+      source += `[${body}]`;
+      i = close;
+    } else if (char === '{') {
+      const close = findBraceEnd(glob, i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${splitAlternatives(glob.slice(i + 1, close)).map(convert).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+function findBraceEnd(glob: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < glob.length; i++) {
+    if (glob[i] === '{') depth++;
+    if (glob[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '{') depth++;
+    else if (body[i] === '}') depth--;
+    else if (body[i] === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+
+  return parts;
+}
@@ -21,10 +21,121 @@
  */
 
 import { WebSocket } from 'ws';
-import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import type { FileEntry, ServerConfig, ClientMessage } from '../shared/types.js';
+import { createHash, randomUUID } from 'crypto';
+import type {
+  AccessPermission,
+  FileEntry,
+  ServerConfig,
+  ClientMessage,
+  ContentMatch,
+  ContentSearchOptions,
+  DirectoryPage,
+  DiskUsage,
+  ExtractOptions,
+  ExtractProgress,
+  ExtractResult,
+  FileLock,
+  HashAlgorithm,
+  HashResult,
+  LineMatch,
+  ListOptions,
+  OperationProgress,
+  ServerMessage,
+  PathPermissions,
+  Precondition,
+  QuotaInfo,
+  RestoreConflict,
+  SearchOptions,
+  TrashItem,
+  UploadSession,
+  WatchEvent,
+  WatchOptions,
+} from '../shared/types.js';
+import { decodeFrame, encodeFrame } from '../shared/frames.js';
+import { ArchiveTree, archiveFormat, openArchive, readArchiveEntry, splitArchivePath, type ArchiveEntry } from './archive.js';
+import type { AuditEntry, AuditSink } from './audit.js';
+import { Backups, type BackupOptions } from './backup.js';
+import { DiskUsageCache } from './disk-usage.js';
+import { OperationError } from './errors.js';
+import {
+  ChunkWindow,
+  PROGRESS_INTERVAL,
+  ProgressTracker,
+  throwIfCancelled,
+  type OperationControl,
+  type StreamControl,
+} from './progress.js';
+import { globToRegExp } from './glob.js';
+import { LockTable, type LockContext } from './locks.js';
+import { LIST_SORT_FIELDS, compareKeys, decodeCursor, encodeCursor, firstSorted, sortKeyOf, type ListOrder, type SortKey } from './listing.js';
+import { isWithin } from './paths.js';
+import { UsageTracker, type Quota, type Usage } from './quota.js';
+import { RateLimiter, type RateLimits } from './rate-limit.js';
+import { Trash, type TrashOptions } from './trash.js';
+import { DirectoryWatcher } from './watcher.js';
+import { ZipWriter, crc32 } from './zip.js';
+import { LocalFileSystemProvider } from './local-provider.js';
+import type { FileSystemProvider, FileWriter, ProviderEntry, ProviderStats } from './provider.js';
+
+/**
+ * Access rule for paths matching a glob
+ */
+export interface AccessRule {
+  /**
+   * Glob matched against the path relative to the allowed root containing it
+   * (or against the full path if the glob is absolute).
+   * Supports *, ?, **, [abc] and {a,b}; 'dir/**' also matches 'dir' itself.
+   */
+  match: string;
+
+  /** Permissions granted to matching paths */
+  allow?: AccessPermission[] | '*';
+
+  /** Permissions revoked from matching paths */
+  deny?: AccessPermission[] | '*';
+}
+
+/**
+ * Identity and settings for one connection, returned by `authenticate`.
+ * Settings given here replace the handler's for that connection;
+ * `rules` are applied after the handler's own rules.
+ */
+export interface XFilesSession {
+  /** Who is connected (passed on to `authorize`) */
+  user?: unknown;
+
+  /** Root paths for this connection */
+  allowedPaths?: string[];
+
+  /** Allow file write operations */
+  allowWrite?: boolean;
+
+  /** Allow file/directory deletion */
+  allowDelete?: boolean;
+
+  /** Maximum file size for read/write operations (bytes) */
+  maxFileSize?: number;
+
+  /** Maximum total size of a chunked upload (bytes) */
+  maxUploadSize?: number;
+
+  /** Maximum bytes written by one archive extraction */
+  maxExtractSize?: number;
+
+  /** Maximum entries in one extracted archive */
+  maxExtractEntries?: number;
+
+  /** Additional access rules */
+  rules?: AccessRule[];
+
+  /**
+   * Storage quota for each of this connection's roots. A connection is
+   * refused while another user with a quota is connected to an overlapping root.
+   */
+  quota?: Quota;
+}
 
 /**
  * Configuration options for XFilesHandler
@@ -55,20 +166,123 @@ export interface XFilesConfig {
    */
   maxFileSize?: number;
 
+  /**
+   * Maximum total size of a chunked upload (bytes).
+   * Each chunk is still limited by maxFileSize.
+   * @default 1GB (1024 * 1024 * 1024)
+   */
+  maxUploadSize?: number;
+
+  /**
+   * Maximum bytes written by one archive extraction, counting what the
+   * entries inflate to (guards against zip bombs)
+   * @default 1GB (1024 * 1024 * 1024)
+   */
+  maxExtractSize?: number;
+
+  /**
+   * Maximum entries (files and directories) in one extracted archive
+   * @default 10000
+   */
+  maxExtractEntries?: number;
+
+  /**
+   * Maximum entries in an archive opened for browsing, whose entry list is
+   * kept in memory (guards against archives of millions of empty entries)
+   * @default 100000
+   */
+  maxArchiveEntries?: number;
+
+  /**
+   * Storage quota, enforced separately for each allowed root.
+   * Usage is scanned once per root, then tracked as files change.
+   * It counts everything below the root, whoever wrote it.
+   * @default {} (unlimited)
+   */
+  quota?: Quota;
+
+  /**
+   * Move deleted items to a trash directory in their root instead of
+   * removing them, so they can be listed, restored and purged
+   * (true for the default TrashOptions). Trashed items still count
+   * towards the quota until they are purged.
+   * @default false
+   */
+  trash?: boolean | TrashOptions;
+
+  /**
+   * Copy a file next to itself before a write or upload replaces it
+   * (true for the default BackupOptions: a single `name~`). Backups are
+   * ordinary files and count towards the quota.
+   * @default false
+   */
+  backups?: boolean | BackupOptions;
+
+  /**
+   * Discard unfinished chunked uploads after this long without activity (ms)
+   * @default 1 hour (60 * 60 * 1000)
+   */
+  uploadTimeout?: number;
+
+  /**
+   * How symbolic links are treated:
+   * - 'within-roots': follow links only if their real target stays inside allowedPaths
+   * - 'deny': refuse any path that goes through a symbolic link
+   * - 'follow': follow links anywhere (only the requested path is checked)
+   * @default 'within-roots'
+   */
+  symlinks?: 'follow' | 'deny' | 'within-roots';
+
+  /**
+   * Per-path access rules. Every path starts with read access plus the
+   * allowWrite/allowDelete defaults; each matching rule then applies in
+   * order, so later rules override earlier ones. Entries without read
+   * access are hidden from listings, searches and watch events.
+   * @default []
+   * @example [{ match: 'uploads/**', allow: ['write'] }, { match: 'secrets/**', deny: '*' }]
+   */
+  rules?: AccessRule[];
+
+  /**
+   * Storage backend for all file operations.
+   * Paths are still validated against allowedPaths before reaching it.
+   * @default new LocalFileSystemProvider()
+   */
+  provider?: FileSystemProvider;
+
+  /**
+   * Where to record every processed operation (see audit.ts).
+   * Sink failures are logged and never fail the operation.
+   * @default []
+   */
+  audit?: AuditSink | AuditSink[];
+
+  /**
+   * Request limits for each connection, and for each user across all
+   * their connections (users are told apart by session.user.id, or
+   * session.user itself). Over-limit requests fail with code
+   * 'RATE_LIMITED' and a retryAfter hint.
+   * @default {} (unlimited)
+   */
+  rateLimits?: { connection?: RateLimits; user?: RateLimits };
+
   /**
    * Custom authentication function.
    * Called for each new WebSocket connection.
-   * Return true to allow, false to deny.
+   * Return true to allow, false to deny, or a session object to allow
+   * with per-connection settings.
    * @default () => true
    */
-  authenticate?: (req: any) => boolean | Promise<boolean>;
+  authenticate?: (req: any) => boolean | XFilesSession | Promise<boolean | XFilesSession>;
 
   /**
    * Custom authorization function for each operation.
-   * Called before executing any file operation.
+   * Called before executing any file operation, with the session
+   * returned by authenticate (if any), once for each path it touches:
+   * the destination of a rename, copy, extraction or restore too.
    * Return true to allow, false to deny.
    */
-  authorize?: (operation: string, path: string, req: any) => boolean | Promise<boolean>;
+  authorize?: (operation: string, path: string, req: any, session: XFilesSession | null) => boolean | Promise<boolean>;
 }
 
 /**
@@ -79,10 +293,281 @@ const DEFAULT_CONFIG: Required<Omit<XFilesConfig, 'authorize'>> & { authorize?:
   allowWrite: false,
   allowDelete: false,
   maxFileSize: 10 * 1024 * 1024, // 10MB
+  maxUploadSize: 1024 * 1024 * 1024, // 1GB
+  maxExtractSize: 1024 * 1024 * 1024, // 1GB
+  maxExtractEntries: 10000,
+  maxArchiveEntries: 100000,
+  quota: {},
+  trash: false,
+  backups: false,
+  uploadTimeout: 60 * 60 * 1000, // 1 hour
+  symlinks: 'within-roots',
+  rules: [],
+  provider: new LocalFileSystemProvider(),
+  audit: [],
+  rateLimits: {},
   authenticate: () => true,
   authorize: undefined,
 };
 
+/**
+ * Default bytes per streamed download chunk
+ */
+const DEFAULT_STREAM_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Default size cap for files scanned by a content search
+ */
+const DEFAULT_CONTENT_SEARCH_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Pause streaming while this many bytes are queued on the socket
+ */
+const STREAM_HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+/**
+ * Number of browsed archives whose entries are kept in memory
+ */
+const MAX_CACHED_ARCHIVES = 16;
+
+const HASH_ALGORITHMS: HashAlgorithm[] = ['sha256', 'sha1', 'md5', 'crc32'];
+
+/**
+ * How long measured directory sizes are trusted, for changes made outside the handler (ms)
+ */
+const DISK_USAGE_CACHE_TIME = 10 * 60 * 1000;
+
+/**
+ * Number of measured directories whose sizes are kept
+ */
+const MAX_CACHED_DISK_USAGE = 10000;
+
+/**
+ * Entries stat'ed at the same time while listing or measuring a directory
+ */
+const STAT_CONCURRENCY = 16;
+
+/**
+ * Entries in a directory page when the client doesn't choose
+ */
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Most entries in one directory page
+ */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Edit lease duration when the client doesn't choose (ms)
+ */
+const DEFAULT_LOCK_TTL = 60 * 1000;
+
+/**
+ * Longest edit lease taken or renewed at once (ms)
+ */
+const MAX_LOCK_TTL = 10 * 60 * 1000;
+
+/**
+ * Maximum number of symbolic links followed while resolving one path
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Temp files that uploads, extractions and safe writes stage content in
+ * next to their target. Clients never see them, and quotas don't count them.
+ */
+const TEMP_FILE_PATTERN = /^\..+\.[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}\.(upload|extract|tmp)$/;
+
+/**
+ * Requests exempt from rate limits: they only stop, release or acknowledge
+ * something, and a refused `cancel` would let the operation it targets run on
+ */
+const UNLIMITED_OPERATIONS = new Set<string>(['cancel', 'unwatch', 'unlock', 'stream-ack']);
+
+const ALL_PERMISSIONS: AccessPermission[] = ['read', 'write', 'delete'];
+
+const PERMISSION_ERRORS: Record<AccessPermission, string> = {
+  read: 'Read access denied',
+  write: 'Write operations are not allowed',
+  delete: 'Delete operations are not allowed',
+};
+
+/**
+ * Access rules match case-insensitively where the file system usually is
+ */
+const CASE_SENSITIVE_PATHS = process.platform !== 'win32' && process.platform !== 'darwin';
+
+/**
+ * Access rule prepared for matching
+ */
+interface CompiledRule {
+  pattern: RegExp;
+  absolute: boolean;
+  allow: AccessPermission[];
+  deny: AccessPermission[];
+}
+
+function compileRule(rule: AccessRule): CompiledRule {
+  const absolute = path.isAbsolute(rule.match);
+  const match = absolute ? path.resolve(rule.match).split(path.sep).join('/') : rule.match;
+
+  return {
+    pattern: globToRegExp(match, { caseSensitive: CASE_SENSITIVE_PATHS }),
+    absolute,
+    allow: rule.allow === '*' ? ALL_PERMISSIONS : rule.allow ?? [],
+    deny: rule.deny === '*' ? ALL_PERMISSIONS : rule.deny ?? [],
+  };
+}
+
+/**
+ * Name search prepared for matching
+ */
+interface CompiledSearch {
+  /** Test the search pattern against an entry (its name, or relative path for globs with '/') */
+  matches(relative: string, name: string): boolean;
+  /** Test whether a path relative to the search directory is excluded */
+  excludes(relative: string): boolean;
+  /** Test an entry against the type, size and date filters */
+  accepts(entry: FileEntry): boolean;
+}
+
+function compileSearch(pattern: string, options: SearchOptions): CompiledSearch {
+  const { mode = 'regex', caseSensitive = false, type, minSize, maxSize } = options;
+  const after = parseTime(options.modifiedAfter);
+  const before = parseTime(options.modifiedBefore);
+
+  let matches: CompiledSearch['matches'];
+  if (mode === 'glob') {
+    const glob = globToRegExp(pattern, { caseSensitive });
+    matches = pattern.includes('/') ? (relative) => glob.test(relative) : (_, name) => glob.test(name);
+  } else {
+    const regex = new RegExp(pattern, caseSensitive ? '' : 'i');
+    matches = (_, name) => regex.test(name);
+  }
+
+  // Unanchored excludes may match starting at any segment
+  const excludes = (options.exclude ?? []).map((glob) => ({
+    anchored: glob.startsWith('/'),
+    pattern: globToRegExp(glob.replace(/^\/+/, ''), { caseSensitive: CASE_SENSITIVE_PATHS }),
+  }));
+
+  return {
+    matches,
+    excludes: (relative) => {
+      const segments = relative.split('/');
+      return excludes.some(({ anchored, pattern }) =>
+        anchored
+          ? pattern.test(relative)
+          : segments.some((_, i) => pattern.test(segments.slice(i).join('/')))
+      );
+    },
+    accepts: (entry) => {
+      if (type === 'file' && !entry.isFile) return false;
+      if (type === 'directory' && !entry.isDirectory) return false;
+      // Size filters only match files
+      if ((minSize !== undefined || maxSize !== undefined) && !entry.isFile) return false;
+      if (minSize !== undefined && entry.size < minSize) return false;
+      if (maxSize !== undefined && entry.size > maxSize) return false;
+
+      const modified = Date.parse(entry.modified);
+      if (after !== undefined && modified < after) return false;
+      if (before !== undefined && modified >= before) return false;
+      return true;
+    },
+  };
+}
+
+function parseTime(value: Date | string | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Map items with at most `limit` calls running at once, keeping their order
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * A field of a session's user, if the user is an object that has it
+ */
+function userField(user: unknown, key: 'id' | 'name'): unknown {
+  return typeof user === 'object' && user !== null ? (user as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Version token of a file or directory; changes whenever it is modified
+ * or replaced by another item
+ */
+function versionOf(stats: ProviderStats): string {
+  return [stats.mtime.getTime(), stats.size, stats.ino ?? 0].map((n) => n.toString(36)).join('-');
+}
+
+/**
+ * Settings in effect for one session: the handler config with the session's overrides
+ */
+interface Scope {
+  allowedPaths: string[];
+  allowWrite: boolean;
+  allowDelete: boolean;
+  maxFileSize: number;
+  maxUploadSize: number;
+  maxExtractSize: number;
+  maxExtractEntries: number;
+  quota: Quota;
+  rules: CompiledRule[];
+}
+
+/**
+ * State of an open connection
+ */
+interface Connection {
+  req: any;
+  session: XFilesSession | null;
+  watchers: Map<number, DirectoryWatcher>;
+  limiter: RateLimiter | null;
+  /** Running cancellable operations by requestId */
+  operations: Map<number, AbortController>;
+  /** Flow control of running chunk streams by requestId */
+  windows: Map<number, ChunkWindow>;
+}
+
+/**
+ * Server-side state of a chunked upload
+ */
+interface PendingUpload {
+  id: string;
+  path: string;
+  tempPath: string;
+  size: number;
+  offset: number;
+  nextIndex: number;
+  writer: FileWriter;
+  /** Who started the upload (see ownerOf); only they can continue it */
+  owner: unknown;
+  /** Version the destination must still have at commit */
+  ifMatch?: string;
+  busy: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
 /**
  * x-files.js WebSocket Handler
  *
@@ -91,36 +576,150 @@ const DEFAULT_CONFIG: Required<Omit<XFilesConfig, 'authorize'>> & { authorize?:
  */
 export class XFilesHandler {
   private config: Required<Omit<XFilesConfig, 'authorize'>> & { authorize?: XFilesConfig['authorize'] };
-  private connections = new Map<WebSocket, { req: any }>();
+  private provider: FileSystemProvider;
+  private auditSinks: AuditSink[];
+  private usage: UsageTracker;
+  private diskUsage = new DiskUsageCache(DISK_USAGE_CACHE_TIME, MAX_CACHED_DISK_USAGE);
+  private trash: Trash | null;
+  private backups: Backups | null;
+  private locks = new LockTable((type, lock) => this.notifyLock(type, lock.path));
+  private defaultScope: Scope;
+  private scopes = new WeakMap<XFilesSession, Scope>();
+  private connections = new Map<WebSocket, Connection>();
+  private userLimiters = new Map<unknown, RateLimiter>();
+  private archiveTrees = new Map<string, { version: string; tree: Promise<ArchiveTree> }>();
+  private nextWatchId = 1;
+
+  // Upload sessions outlive connections so clients can resume after reconnecting
+  private uploads = new Map<string, PendingUpload>();
+  /** Last queued change of each path being changed */
+  private changes = new Map<string, Promise<unknown>>();
 
   constructor(config: XFilesConfig = {}) {
     this.config = {
       ...DEFAULT_CONFIG,
       ...config,
     };
+    this.provider = this.config.provider;
+    this.auditSinks = [this.config.audit].flat();
+    this.usage = new UsageTracker(this.provider, (name) => TEMP_FILE_PATTERN.test(name));
+    this.trash = this.config.trash
+      ? new Trash(this.provider, this.config.trash === true ? {} : this.config.trash)
+      : null;
+    this.backups = this.config.backups
+      ? new Backups(this.provider, this.config.backups === true ? {} : this.config.backups)
+      : null;
+    this.defaultScope = this.createScope({});
   }
 
   /**
-   * Get the server configuration (for client)
+   * Get the server configuration (for client), as seen by a session
    */
-  getServerConfig(): ServerConfig {
+  getServerConfig(session: XFilesSession | null = null): ServerConfig {
+    const scope = this.scopeFor(session);
+    return {
+      allowedPaths: scope.allowedPaths,
+      allowWrite: scope.allowWrite,
+      allowDelete: scope.allowDelete,
+      maxFileSize: scope.maxFileSize,
+      maxUploadSize: scope.maxUploadSize,
+      binaryFrames: true,
+      trash: this.trash !== null,
+    };
+  }
+
+  private createScope(session: XFilesSession): Scope {
     return {
-      allowedPaths: this.config.allowedPaths,
-      allowWrite: this.config.allowWrite,
-      allowDelete: this.config.allowDelete,
-      maxFileSize: this.config.maxFileSize,
+      allowedPaths: session.allowedPaths ?? this.config.allowedPaths,
+      allowWrite: session.allowWrite ?? this.config.allowWrite,
+      allowDelete: session.allowDelete ?? this.config.allowDelete,
+      maxFileSize: session.maxFileSize ?? this.config.maxFileSize,
+      maxUploadSize: session.maxUploadSize ?? this.config.maxUploadSize,
+      maxExtractSize: session.maxExtractSize ?? this.config.maxExtractSize,
+      maxExtractEntries: session.maxExtractEntries ?? this.config.maxExtractEntries,
+      quota: session.quota ?? this.config.quota,
+      rules: [...this.config.rules, ...(session.rules ?? [])].map(compileRule),
     };
   }
 
+  /**
+   * Get the effective settings for a session (cached per session object)
+   */
+  private scopeFor(session: XFilesSession | null): Scope {
+    if (!session) return this.defaultScope;
+
+    let scope = this.scopes.get(session);
+    if (!scope) {
+      scope = this.createScope(session);
+      this.scopes.set(session, scope);
+    }
+    return scope;
+  }
+
   /**
    * Validate that a path is within allowed directories
    */
-  private isPathAllowed(targetPath: string): boolean {
-    const normalizedTarget = path.normalize(path.resolve(targetPath));
-    return this.config.allowedPaths.some((allowedPath) => {
-      const normalizedAllowed = path.normalize(path.resolve(allowedPath));
-      return normalizedTarget.startsWith(normalizedAllowed);
-    });
+  private isPathAllowed(scope: Scope, targetPath: string): boolean {
+    const normalizedTarget = path.resolve(targetPath);
+    return scope.allowedPaths.some((allowedPath) => isWithin(normalizedTarget, path.resolve(allowedPath)));
+  }
+
+  /**
+   * Validate that a path is allowed once symbolic links are resolved,
+   * according to the configured symlink policy
+   */
+  private async isRealPathAllowed(scope: Scope, targetPath: string): Promise<boolean> {
+    if (this.config.symlinks === 'follow') return true;
+
+    try {
+      const realTarget = await this.realPath(targetPath);
+      const roots = scope.allowedPaths.map((allowedPath) => path.resolve(allowedPath));
+      const realRoots = await Promise.all(roots.map((root) => this.realPath(root)));
+
+      if (this.config.symlinks === 'deny') {
+        // No link may be crossed below the root
+        return roots.some((root, i) =>
+          isWithin(targetPath, root) && realTarget === path.join(realRoots[i], path.relative(root, targetPath))
+        );
+      }
+
+      return realRoots.some((realRoot) => isWithin(realTarget, realRoot));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve symbolic links in a path that may not exist yet
+   * (missing trailing segments are appended to their real parent)
+   */
+  private async realPath(targetPath: string, depth = 0): Promise<string> {
+    const { realpath, lstat, readlink } = this.provider;
+    if (!realpath) return targetPath;
+
+    if (depth > MAX_SYMLINK_DEPTH) {
+      throw new Error(`Too many symbolic links: ${targetPath}`);
+    }
+
+    try {
+      return await realpath.call(this.provider, targetPath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') throw error;
+    }
+
+    const parent = path.dirname(targetPath);
+    if (parent === targetPath) return targetPath;
+    const realParent = await this.realPath(parent, depth);
+
+    // A dangling link still decides where a write would land
+    const stats = await lstat?.call(this.provider, targetPath).catch(() => null);
+    if (stats?.isSymbolicLink && readlink) {
+      const linkTarget = await readlink.call(this.provider, targetPath);
+      return this.realPath(path.resolve(realParent, linkTarget), depth + 1);
+    }
+
+    return path.join(realParent, path.basename(targetPath));
   }
 
   /**
@@ -133,23 +732,111 @@ export class XFilesHandler {
 
   /**
    * Validate and resolve path, throwing if not allowed
+   * (or if the access rules don't grant the given permission)
    */
-  private validatePath(inputPath: string): string {
+  private async validatePath(scope: Scope, inputPath: string, permission?: AccessPermission): Promise<string> {
     const sanitized = this.sanitizePath(inputPath);
     const resolved = path.resolve(sanitized);
+    // Paths into an archive are checked as the archive itself, and can only be read
+    const inArchive = splitArchivePath(resolved);
+    const checked = inArchive?.archive ?? resolved;
 
-    if (!this.isPathAllowed(resolved)) {
+    if (!this.isPathAllowed(scope, checked) || !(await this.isRealPathAllowed(scope, checked))) {
       throw new Error(`Access denied: ${inputPath}`);
     }
 
+    if (inArchive && permission && permission !== 'read') {
+      throw new Error(`Archives are read-only: ${inputPath}`);
+    }
+
+    if (permission) {
+      this.checkPermission(scope, checked, permission, inputPath);
+    }
+
     return resolved;
   }
 
+  /**
+   * Evaluate the access rules for a resolved path
+   */
+  private permissionsFor(scope: Scope, resolvedPath: string): Omit<PathPermissions, 'path'> {
+    // The trash is only reachable through the trash operations, temp files not at all
+    if (this.isInTrash(scope, resolvedPath) || TEMP_FILE_PATTERN.test(path.basename(resolvedPath))) {
+      return { read: false, write: false, delete: false };
+    }
+
+    const permissions = {
+      read: true,
+      write: scope.allowWrite,
+      delete: scope.allowDelete,
+    };
+    if (scope.rules.length === 0) return permissions;
+
+    // Relative globs apply below the innermost root containing the path
+    const root = this.rootOf(scope, resolvedPath);
+    const relative = root ? path.relative(root, resolvedPath).split(path.sep).join('/') : '';
+    const absolute = resolvedPath.split(path.sep).join('/');
+
+    for (const rule of scope.rules) {
+      if (!rule.pattern.test(rule.absolute ? absolute : relative)) continue;
+      for (const permission of rule.allow) permissions[permission] = true;
+      for (const permission of rule.deny) permissions[permission] = false;
+    }
+
+    return permissions;
+  }
+
+  /**
+   * Get the innermost allowed root containing a path
+   */
+  private rootOf(scope: Scope, resolvedPath: string): string | undefined {
+    return scope.allowedPaths
+      .map((allowedPath) => path.resolve(allowedPath))
+      .filter((allowedPath) => isWithin(resolvedPath, allowedPath))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  /**
+   * Check whether a path is inside the trash directory of a root
+   */
+  private isInTrash(scope: Scope, resolvedPath: string): boolean {
+    if (!this.trash) return false;
+
+    const root = this.rootOf(scope, resolvedPath);
+    return root !== undefined && path.relative(root, resolvedPath).split(path.sep).includes(this.trash.directory);
+  }
+
+  private checkPermission(scope: Scope, resolvedPath: string, permission: AccessPermission, displayPath: string = resolvedPath): void {
+    if (!this.permissionsFor(scope, resolvedPath)[permission]) {
+      throw new Error(`${PERMISSION_ERRORS[permission]}: ${displayPath}`);
+    }
+  }
+
+  /**
+   * Check a permission for everything below a directory, so recursive
+   * operations can't reach entries the rules protect
+   */
+  private async checkTreePermission(scope: Scope, itemPath: string, permission: AccessPermission): Promise<void> {
+    if (scope.rules.length === 0) return;
+
+    const stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, itemPath);
+    if (!stats.isDirectory) return;
+
+    for (const entry of await this.provider.list(itemPath)) {
+      const entryPath = path.join(itemPath, entry.name);
+      this.checkPermission(scope, entryPath, permission);
+      if (entry.isDirectory) {
+        await this.checkTreePermission(scope, entryPath, permission);
+      }
+    }
+  }
+
   /**
    * Handle new WebSocket connection
    */
   async handleConnection(ws: WebSocket, req: any): Promise<void> {
     // Authenticate
+    let session: XFilesSession | null;
     try {
       const authenticated = await this.config.authenticate(req);
       if (!authenticated) {
@@ -160,6 +847,7 @@ export class XFilesHandler {
         ws.close(4001, 'Authentication failed');
         return;
       }
+      session = typeof authenticated === 'object' ? authenticated : null;
     } catch (error) {
       ws.send(JSON.stringify({
         type: 'error',
@@ -169,20 +857,41 @@ export class XFilesHandler {
       return;
     }
 
+    // A quota limits everything below a root, so users with quotas can't share one
+    const sharedRoot = this.sharedQuotaRoot(session);
+    if (sharedRoot) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: `Quota root ${sharedRoot} is shared with another user`
+      }));
+      ws.close(4003, 'Quota root shared with another user');
+      return;
+    }
+
     // Store connection
-    this.connections.set(ws, { req });
+    const limits = this.config.rateLimits.connection;
+    this.connections.set(ws, {
+      req,
+      session,
+      watchers: new Map(),
+      limiter: limits ? new RateLimiter(limits) : null,
+      operations: new Map(),
+      windows: new Map(),
+    });
 
-    // Send server config
+    // Send the server config as this session sees it
     ws.send(JSON.stringify({
       type: 'connected',
-      config: this.getServerConfig()
+      config: this.getServerConfig(session)
     }));
 
     // Handle messages
-    ws.on('message', async (data) => {
+    ws.on('message', async (data, isBinary) => {
       try {
-        const message: ClientMessage = JSON.parse(data.toString());
-        await this.handleMessage(ws, message, req);
+        const message: ClientMessage = isBinary
+          ? decodeFrame(data as Buffer)
+          : JSON.parse(data.toString());
+        await this.handleMessage(ws, message);
       } catch (error) {
         console.error('[x-files] Error handling message:', error);
         ws.send(JSON.stringify({
@@ -194,153 +903,504 @@ export class XFilesHandler {
 
     // Handle close
     ws.on('close', () => {
-      this.connections.delete(ws);
+      this.removeConnection(ws);
     });
 
     // Handle errors
     ws.on('error', (error) => {
       console.error('[x-files] WebSocket error:', error);
-      this.connections.delete(ws);
+      this.removeConnection(ws);
     });
   }
 
   /**
-   * Handle client message
+   * Forget a connection and release its watchers and edit leases
    */
-  private async handleMessage(ws: WebSocket, message: ClientMessage, req: any): Promise<void> {
-    const { type, requestId, ...params } = message;
+  private removeConnection(ws: WebSocket): void {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
 
-    // Check authorization if configured
-    if (this.config.authorize) {
-      const targetPath = params.path || params.oldPath || params.source || '';
-      const authorized = await this.config.authorize(type, targetPath, req);
-      if (!authorized) {
-        ws.send(JSON.stringify({
-          type: 'result',
-          requestId,
-          success: false,
-          error: 'Operation not authorized'
-        }));
-        return;
-      }
+    for (const watcher of connection.watchers.values()) {
+      watcher.close();
     }
+    for (const operation of connection.operations.values()) {
+      operation.abort();
+    }
+    this.connections.delete(ws);
+    this.locks.releaseAll(connection);
+    this.pruneUserLimiters();
+  }
+
+  /**
+   * Forget the limiters of users without connections once they are idle
+   * (not right away, or reconnecting would reset a spent budget)
+   */
+  private pruneUserLimiters(): void {
+    if (this.userLimiters.size === 0) return;
+
+    const connected = new Set([...this.connections.values()].map((connection) => this.userKey(connection.session)));
+    for (const [key, limiter] of this.userLimiters) {
+      if (!connected.has(key) && limiter.idle()) {
+        this.userLimiters.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Handle client message
+   */
+  private async handleMessage(ws: WebSocket, message: ClientMessage): Promise<void> {
+    const { type, requestId, ...params } = message;
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+    const { req, session } = connection;
+    const started = Date.now();
+    const targets = this.auditTargets(params);
+
+    // Enforce rate limits (never on requests that stop or release something)
+    const limiters = UNLIMITED_OPERATIONS.has(type) ? [] : this.limitersFor(connection);
+    const retryAfter = Math.max(0, ...limiters.map((limiter) => limiter.retryAfter()));
+    if (retryAfter > 0) {
+      ws.send(JSON.stringify({
+        type: 'result',
+        requestId,
+        success: false,
+        error: `Rate limit exceeded, retry after ${retryAfter}ms`,
+        code: 'RATE_LIMITED',
+        retryAfter
+      }));
+      this.recordAudit(connection, type, targets, started, { error: 'Rate limit exceeded' });
+      return;
+    }
+
+    for (const limiter of limiters) {
+      limiter.begin();
+    }
+    const finish = (outcome: { bytes?: number; error?: string }) => {
+      for (const limiter of limiters) {
+        limiter.end(outcome.bytes ?? 0);
+      }
+      this.recordAudit(connection, type, targets, started, outcome);
+    };
+
+    // Check authorization if configured (for every path the operation touches)
+    if (this.config.authorize) {
+      const targetPaths = await this.authorizationTargets(type, params, session);
+      let authorized = true;
+      for (const targetPath of targetPaths) {
+        authorized = authorized && await this.config.authorize(type, targetPath, req, session);
+      }
+      if (!authorized) {
+        ws.send(JSON.stringify({
+          type: 'result',
+          requestId,
+          success: false,
+          error: 'Operation not authorized'
+        }));
+        finish({ error: 'Operation not authorized' });
+        return;
+      }
+    }
+
+    try {
+      let result: unknown;
 
-    try {
-      let result: any;
-
       switch (type) {
         case 'list':
-          result = await this.listDirectory(params.path);
+          // Paged and sorted when options are given, the whole directory otherwise
+          result = params.options
+            ? await this.listPage(params.path, params.options, session)
+            : await this.listDirectory(params.path, session);
           break;
 
         case 'stat':
-          result = await this.getStats(params.path);
+          result = await this.getStats(params.path, session);
           break;
 
         case 'read':
-          result = await this.readFile(params.path, params.encoding);
+          result = params.binary
+            ? await this.readFileBuffer(params.path, session)
+            : await this.readFile(params.path, params.encoding, session);
           break;
 
         case 'write':
-          this.checkWritePermission();
-          result = await this.writeFile(params.path, params.content, params.encoding);
+          result = await this.writeFile(params.path, params.content, params.encoding, session, {
+            ifMatch: params.ifMatch,
+            lockOwner: connection,
+          });
           break;
 
         case 'mkdir':
-          this.checkWritePermission();
-          result = await this.createDirectory(params.path);
+          result = await this.createDirectory(params.path, session);
           break;
 
         case 'delete':
-          this.checkDeletePermission();
-          result = await this.deleteItem(params.path);
+          result = await this.deleteItem(params.path, session, {
+            ...this.startOperation(connection, ws, requestId),
+            ifMatch: params.ifMatch,
+            lockOwner: connection,
+          });
           break;
 
         case 'rename':
-          this.checkWritePermission();
-          result = await this.renameItem(params.oldPath, params.newPath);
+          result = await this.renameItem(params.oldPath, params.newPath, session, {
+            ifMatch: params.ifMatch,
+            lockOwner: connection,
+          });
           break;
 
         case 'copy':
-          this.checkWritePermission();
-          result = await this.copyItem(params.source, params.destination);
+          result = await this.copyItem(params.source, params.destination, session, {
+            ...this.startOperation(connection, ws, requestId),
+            lockOwner: connection,
+          });
           break;
 
         case 'exists':
-          result = await this.exists(params.path);
+          result = await this.exists(params.path, session);
           break;
 
         case 'search':
-          result = await this.searchFiles(params.path, params.pattern, params.options);
+          result = await this.searchFiles(params.path, params.pattern, params.options, session, this.startOperation(connection, ws, requestId));
+          break;
+
+        case 'search-content':
+          result = await this.searchContent(ws, requestId, params.path, params.pattern, params.options, session, this.startOperation(connection, ws, requestId));
           break;
 
         case 'upload':
-          this.checkWritePermission();
-          result = await this.uploadFile(params.path, params.content, params.encoding, params.isBinary);
+          result = await this.uploadFile(params.path, params.content, params.encoding, params.isBinary, session, {
+            ifMatch: params.ifMatch,
+            lockOwner: connection,
+          });
           break;
 
         case 'download':
-          result = await this.downloadFile(params.path, params.asBinary);
+          result = params.binary
+            ? await this.downloadFileBuffer(params.path, params.asBinary, session)
+            : await this.downloadFile(params.path, params.asBinary, session);
+          break;
+
+        case 'download-stream':
+          result = await this.streamDownload(ws, requestId, params.path, params, session, this.startStream(connection, ws, requestId, params.window));
+          break;
+
+        case 'download-zip':
+          result = await this.streamZip(ws, requestId, params.paths, params, session, this.startStream(connection, ws, requestId, params.window));
+          break;
+
+        case 'upload-begin':
+          result = await this.beginUpload(params.path, params.size, params.uploadId, session, {
+            ifMatch: params.ifMatch,
+            lockOwner: connection,
+          });
+          break;
+
+        case 'upload-chunk':
+          result = await this.writeUploadChunk(params.uploadId, params.index, params.content, session);
+          break;
+
+        case 'upload-commit':
+          result = await this.commitUpload(params.uploadId, session, { lockOwner: connection });
+          break;
+
+        case 'upload-abort':
+          result = await this.abortUpload(params.uploadId, session);
+          break;
+
+        case 'watch':
+          result = await this.watchDirectory(ws, params.path, params.options);
+          break;
+
+        case 'unwatch':
+          result = this.unwatchDirectory(ws, params.watchId);
+          break;
+
+        case 'permissions':
+          result = await this.getPermissions(params.path, session);
+          break;
+
+        case 'quota':
+          result = await this.getQuota(params.path, session);
+          break;
+
+        case 'hash':
+          result = await this.hashFile(params.path, params.algorithm, params.expected, session);
+          break;
+
+        case 'du':
+          result = await this.measureDiskUsage(params.path, session, this.startOperation(connection, ws, requestId));
+          break;
+
+        case 'cancel':
+          result = this.cancelOperation(connection, params.target);
+          break;
+
+        case 'stream-ack':
+          result = this.ackChunks(connection, params.target, params.consumed);
+          break;
+
+        case 'lock':
+          result = await this.lockPath(connection, params.path, params.ttl, session);
+          break;
+
+        case 'unlock':
+          result = await this.unlockPath(connection, params.path, session);
+          break;
+
+        case 'trash-list':
+          result = await this.listTrash(params.path, session);
+          break;
+
+        case 'trash-restore':
+          result = await this.restoreFromTrash(params.id, {
+            destination: params.destination,
+            conflict: params.conflict,
+            lockOwner: connection,
+          }, session);
+          break;
+
+        case 'trash-purge':
+          result = await this.purgeTrash(params.id, session);
+          break;
+
+        case 'extract':
+          result = await this.extractArchive(ws, params.path, params.destination, { ...params, lockOwner: connection }, session, this.startOperation(connection, ws, requestId));
           break;
 
         default:
           throw new Error(`Unknown operation: ${type}`);
       }
 
-      ws.send(JSON.stringify({
+      this.send(ws, {
         type: 'result',
         requestId,
         success: true,
         data: result
-      }));
+      });
+      finish({ bytes: this.transferredBytes(type, params, result) });
     } catch (error) {
       ws.send(JSON.stringify({
         type: 'result',
         requestId,
         success: false,
-        error: (error as Error).message
+        error: (error as Error).message,
+        ...(error instanceof OperationError ? { code: error.code, ...error.details } : {})
       }));
+      finish({ error: (error as Error).message });
+    } finally {
+      connection.operations.delete(requestId);
+      connection.windows.delete(requestId);
+    }
+  }
+
+  /**
+   * Register a cancellable operation of a connection, whose progress goes
+   * to the client as progress messages
+   */
+  private startOperation<P extends OperationProgress | ExtractProgress | DiskUsage = OperationProgress>(
+    connection: Connection,
+    ws: WebSocket,
+    requestId: number
+  ): OperationControl<P> {
+    const controller = new AbortController();
+    connection.operations.set(requestId, controller);
+    return {
+      signal: controller.signal,
+      onProgress: (progress) => this.send(ws, { type: 'progress', requestId, progress }),
+    };
+  }
+
+  /**
+   * Register a cancellable chunk stream of a connection; with a window
+   * (chunks), it only runs that far ahead of what the client consumed
+   */
+  private startStream(connection: Connection, ws: WebSocket, requestId: number, window?: number): StreamControl {
+    const control: StreamControl = this.startOperation(connection, ws, requestId);
+    if (Number.isSafeInteger(window) && window! > 0) {
+      control.window = new ChunkWindow(window!);
+      connection.windows.set(requestId, control.window);
     }
+    return control;
+  }
+
+  /**
+   * Record how many chunks of a running stream the client consumed
+   */
+  private ackChunks(connection: Connection, target: number, consumed: number): { acknowledged: boolean } {
+    const window = connection.windows.get(target);
+    if (window && Number.isSafeInteger(consumed)) window.ack(consumed);
+    return { acknowledged: window !== undefined };
+  }
+
+  /**
+   * Wait until the next chunk of a stream may be sent: the client still
+   * wants it, has room for it, and the socket isn't backed up
+   */
+  private async beforeChunk(ws: WebSocket, control: StreamControl, index: number): Promise<void> {
+    throwIfCancelled(control);
+    await control.window?.wait(index, control.signal);
+    throwIfCancelled(control);
+    await this.waitForDrain(ws);
+  }
+
+  /**
+   * Stop a running operation of the same connection
+   * (false if it already finished or can't be cancelled)
+   */
+  private cancelOperation(connection: Connection, target: number): { cancelled: boolean } {
+    const operation = connection.operations.get(target);
+    operation?.abort();
+    return { cancelled: operation !== undefined };
+  }
+
+  /**
+   * Resolved paths an operation acts on, for the audit log
+   */
+  private auditTargets(params: Record<string, any>): { path?: string; destination?: string } {
+    const source = params.path ?? params.oldPath ?? params.source ?? params.paths?.[0] ?? this.uploads.get(params.uploadId)?.path;
+    const destination = params.newPath ?? params.destination;
+
+    return {
+      path: typeof source === 'string' ? path.resolve(this.sanitizePath(source)) : undefined,
+      destination: typeof destination === 'string' ? path.resolve(this.sanitizePath(destination)) : undefined,
+    };
   }
 
-  private checkWritePermission(): void {
-    if (!this.config.allowWrite) {
-      throw new Error('Write operations are not allowed');
+  /**
+   * Paths passed to `authorize`: every path of a multi-path operation, or
+   * the source (an upload's target, a trash item's original path) and the
+   * destination (where a trash item is restored to, if none is given)
+   */
+  private async authorizationTargets(type: string, params: Record<string, any>, session: XFilesSession | null): Promise<string[]> {
+    if (Array.isArray(params.paths)) return params.paths;
+
+    let source: string = params.path || params.oldPath || params.source || this.uploads.get(params.uploadId)?.path || '';
+    let destination: string | undefined = params.newPath ?? params.destination;
+
+    if ((type === 'trash-restore' || type === 'trash-purge') && this.trash) {
+      // Unknown ids are reported by the operation itself
+      const item = await this.trash.find(this.trashRoots(this.scopeFor(session)), params.id).catch(() => null);
+      if (item) {
+        source = item.originalPath;
+        if (type === 'trash-restore') destination ??= item.originalPath;
+      }
     }
+
+    return destination === undefined ? [source] : [source, destination];
   }
 
-  private checkDeletePermission(): void {
-    if (!this.config.allowDelete) {
-      throw new Error('Delete operations are not allowed');
+  /**
+   * Get the rate limiters that apply to a connection
+   */
+  private limitersFor(connection: Connection): RateLimiter[] {
+    const limiters = connection.limiter ? [connection.limiter] : [];
+    const limits = this.config.rateLimits.user;
+    const key = this.userKey(connection.session);
+
+    if (limits && key !== undefined) {
+      let limiter = this.userLimiters.get(key);
+      if (!limiter) {
+        limiter = new RateLimiter(limits);
+        this.userLimiters.set(key, limiter);
+      }
+      limiters.push(limiter);
     }
+
+    return limiters;
   }
 
   /**
-   * List directory contents
+   * Key that tells users apart across their connections:
+   * session.user.id, or session.user itself (undefined without a user)
    */
-  async listDirectory(dirPath: string): Promise<FileEntry[]> {
-    const resolvedPath = this.validatePath(dirPath);
-    const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
-    const results: FileEntry[] = [];
+  private userKey(session: XFilesSession | null): unknown {
+    const user = session?.user;
+    return userField(user, 'id') ?? user;
+  }
 
-    for (const entry of entries) {
+  /**
+   * Content bytes transferred by a successful operation
+   * (for the audit log and byte rate limits)
+   */
+  private transferredBytes(type: string, params: Record<string, any>, result: unknown): number | undefined {
+    const { size, start = 0, end = -1 } = result as { size?: number; start?: number; end?: number };
+
+    switch (type) {
+      case 'read':
+      case 'write':
+      case 'upload':
+      case 'download':
+      case 'upload-commit':
+        return size;
+      case 'upload-chunk':
+        return Buffer.isBuffer(params.content) ? params.content.length : Buffer.byteLength(params.content, 'base64');
+      case 'download-stream':
+        return end - start + 1;
+      case 'download-zip':
+        return size;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Send an entry to every audit sink; sink failures never fail the operation
+   */
+  private recordAudit(
+    connection: Connection,
+    type: string,
+    targets: { path?: string; destination?: string },
+    started: number,
+    outcome: { bytes?: number; error?: string }
+  ): void {
+    if (this.auditSinks.length === 0) return;
+
+    const entry: AuditEntry = {
+      time: new Date().toISOString(),
+      user: connection.session?.user,
+      address: connection.req?.socket?.remoteAddress,
+      operation: type,
+      ...targets,
+      bytes: outcome.bytes,
+      success: outcome.error === undefined,
+      error: outcome.error,
+      duration: Date.now() - started,
+    };
+
+    for (const sink of this.auditSinks) {
       try {
-        const entryPath = path.join(resolvedPath, entry.name);
-        const stats = await fs.stat(entryPath);
-
-        results.push({
-          name: entry.name,
-          path: entryPath,
-          isDirectory: entry.isDirectory(),
-          isFile: entry.isFile(),
-          size: stats.size,
-          modified: stats.mtime.toISOString(),
-          created: stats.birthtime.toISOString(),
-        });
-      } catch {
-        // Skip entries we can't access
+        const written = typeof sink === 'function' ? sink(entry) : sink.write(entry);
+        Promise.resolve(written).catch((error) => console.error('[x-files] Audit sink error:', error));
+      } catch (error) {
+        console.error('[x-files] Audit sink error:', error);
       }
     }
+  }
+
+  /**
+   * Send a message, as a binary frame when its content is raw bytes
+   */
+  private send(ws: WebSocket, message: ServerMessage): void {
+    const content = message.type === 'chunk' ? message.chunk?.content : message.data?.content;
+
+    if (Buffer.isBuffer(content)) {
+      ws.send(encodeFrame(message, content));
+    } else {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * List directory contents
+   */
+  async listDirectory(dirPath: string, session: XFilesSession | null = null): Promise<FileEntry[]> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+    const inArchive = splitArchivePath(resolvedPath);
+    const results = inArchive
+      ? await this.listArchive(inArchive.archive, inArchive.entry, dirPath)
+      : await this.listEntries(scope, resolvedPath);
 
     // Sort: directories first, then alphabetically
     results.sort((a, b) => {
@@ -353,284 +1413,1998 @@ export class XFilesHandler {
   }
 
   /**
-   * Get file/directory stats
+   * List one page of a directory, sorted on the server. Sorting by size or
+   * date stats every entry; name and type sorts only stat the entries sent.
    */
-  async getStats(filePath: string): Promise<FileEntry> {
-    const resolvedPath = this.validatePath(filePath);
-    const stats = await fs.stat(resolvedPath);
+  async listPage(dirPath: string, options: ListOptions = {}, session: XFilesSession | null = null): Promise<DirectoryPage> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+
+    const after = options.cursor !== undefined ? decodeCursor(options.cursor) : null;
+    const order: ListOrder = {
+      sortBy: after?.sortBy ?? options.sortBy ?? 'name',
+      direction: after?.direction ?? options.direction ?? 'asc',
+    };
+    if (!LIST_SORT_FIELDS.includes(order.sortBy)) {
+      throw new Error(`Unsupported sort field: ${order.sortBy}`);
+    }
+    if (order.direction !== 'asc' && order.direction !== 'desc') {
+      throw new Error(`Unsupported sort direction: ${order.direction}`);
+    }
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+    const candidates = await this.listCandidates(scope, resolvedPath, dirPath, order.sortBy);
+    const compare = (a: { key: SortKey }, b: { key: SortKey }) => compareKeys(a.key, b.key, order);
+
+    // Only the entries up to the end of the page need to be put in order
+    let offset = Math.max(Math.floor(options.offset ?? 0), 0);
+    let page: typeof candidates;
+    if (after) {
+      const remaining = candidates.filter(({ key }) => compareKeys(key, after.last, order) > 0);
+      offset = candidates.length - remaining.length;
+      page = firstSorted(remaining, limit, compare);
+    } else {
+      page = firstSorted(candidates, offset + limit, compare).slice(offset);
+    }
+
+    const entries = await mapConcurrent(page, STAT_CONCURRENCY, async ({ entryPath, entry }) => {
+      // Skip entries we can't access
+      return entry ?? this.toFileEntry(scope, entryPath).catch(() => null);
+    });
 
     return {
-      name: path.basename(resolvedPath),
       path: resolvedPath,
-      isDirectory: stats.isDirectory(),
-      isFile: stats.isFile(),
-      size: stats.size,
-      modified: stats.mtime.toISOString(),
-      created: stats.birthtime.toISOString(),
+      entries: entries.filter((entry): entry is FileEntry => entry !== null),
+      total: candidates.length,
+      offset,
+      ...(offset + page.length < candidates.length ? { cursor: encodeCursor(order, page[page.length - 1].key) } : {}),
     };
   }
 
   /**
-   * Read file contents
+   * Collect the sort keys of a directory's readable entries, with their
+   * full entries when the sort needed them anyway
    */
-  async readFile(filePath: string, encoding: BufferEncoding = 'utf-8'): Promise<{ content: string; size: number }> {
-    const resolvedPath = this.validatePath(filePath);
-    const stats = await fs.stat(resolvedPath);
-
-    if (stats.size > this.config.maxFileSize) {
-      throw new Error(`File too large: ${stats.size} bytes (max: ${this.config.maxFileSize})`);
+  private async listCandidates(
+    scope: Scope,
+    resolvedPath: string,
+    displayPath: string,
+    sortBy: ListOrder['sortBy']
+  ): Promise<{ key: SortKey; entryPath: string; entry?: FileEntry }[]> {
+    const inArchive = splitArchivePath(resolvedPath);
+    if (inArchive || sortBy === 'size' || sortBy === 'modified') {
+      const entries = inArchive
+        ? await this.listArchive(inArchive.archive, inArchive.entry, displayPath)
+        : await this.listEntries(scope, resolvedPath);
+      return entries.map((entry) => ({ key: sortKeyOf(entry), entryPath: entry.path, entry }));
     }
 
-    const content = await fs.readFile(resolvedPath, { encoding });
-    return { content, size: stats.size };
+    const entries = (await this.provider.list(resolvedPath))
+      .map((entry) => ({ entry, entryPath: path.join(resolvedPath, entry.name) }))
+      .filter(({ entryPath }) => this.permissionsFor(scope, entryPath).read);
+
+    // Links sort with their targets, like their full entries describe them
+    return mapConcurrent(entries, STAT_CONCURRENCY, async ({ entry, entryPath }) => {
+      let isDirectory = entry.isDirectory;
+      if (entry.isSymbolicLink && (await this.isRealPathAllowed(scope, entryPath))) {
+        isDirectory = await this.provider.stat(entryPath).then((stats) => stats.isDirectory, () => false);
+      }
+      return { key: { name: entry.name, isDirectory }, entryPath };
+    });
   }
 
   /**
-   * Write file contents
+   * Describe the readable entries of a directory
    */
-  async writeFile(filePath: string, content: string, encoding: BufferEncoding = 'utf-8'): Promise<{ path: string; size: number }> {
-    const resolvedPath = this.validatePath(filePath);
-    const contentSize = Buffer.byteLength(content, encoding);
+  private async listEntries(scope: Scope, resolvedPath: string): Promise<FileEntry[]> {
+    const entryPaths = (await this.provider.list(resolvedPath))
+      .map((entry) => path.join(resolvedPath, entry.name))
+      .filter((entryPath) => this.permissionsFor(scope, entryPath).read);
+
+    const results = await mapConcurrent(entryPaths, STAT_CONCURRENCY, (entryPath) =>
+      // Skip entries we can't access
+      this.toFileEntry(scope, entryPath).catch(() => null)
+    );
+    return results.filter((entry): entry is FileEntry => entry !== null);
+  }
 
-    if (contentSize > this.config.maxFileSize) {
-      throw new Error(`Content too large: ${contentSize} bytes (max: ${this.config.maxFileSize})`);
+  /**
+   * Get file/directory stats
+   */
+  async getStats(filePath: string, session: XFilesSession | null = null): Promise<FileEntry> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'read');
+    const inArchive = splitArchivePath(resolvedPath);
+
+    if (inArchive) {
+      const entry = await this.archiveEntry(inArchive.archive, inArchive.entry, filePath);
+      return this.toArchiveFileEntry(inArchive.archive, entry);
     }
-
-    await fs.writeFile(resolvedPath, content, { encoding });
-    const stats = await fs.stat(resolvedPath);
-
-    return { path: resolvedPath, size: stats.size };
+    return this.toFileEntry(scope, resolvedPath);
   }
 
   /**
-   * Create directory
+   * Get the effective permissions for a path
    */
-  async createDirectory(dirPath: string): Promise<{ path: string }> {
-    const resolvedPath = this.validatePath(dirPath);
-    await fs.mkdir(resolvedPath, { recursive: true });
-    return { path: resolvedPath };
+  async getPermissions(itemPath: string, session: XFilesSession | null = null): Promise<PathPermissions> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, itemPath);
+    const inArchive = splitArchivePath(resolvedPath);
+
+    if (inArchive) {
+      // Archive contents can only be read
+      return { path: resolvedPath, read: this.permissionsFor(scope, inArchive.archive).read, write: false, delete: false };
+    }
+    return { path: resolvedPath, ...this.permissionsFor(scope, resolvedPath) };
   }
 
   /**
-   * Delete file or directory
+   * Take an exclusive edit lease on a path, or renew the one the owner holds.
+   * Until it is released or expires, writes, renames and deletes of the
+   * path by anyone else fail with code 'LOCKED'.
+   *
+   * @param owner Who holds the lease (the connection, over WebSocket; pass
+   *   the same object as `lockOwner` to change the path yourself)
+   * @param ttl Lease duration (ms, default 1 minute, max 10 minutes)
    */
-  async deleteItem(itemPath: string): Promise<{ deleted: string }> {
-    const resolvedPath = this.validatePath(itemPath);
-    const stats = await fs.stat(resolvedPath);
-
-    if (stats.isDirectory()) {
-      await fs.rm(resolvedPath, { recursive: true });
-    } else {
-      await fs.unlink(resolvedPath);
+  async lockPath(
+    owner: object,
+    itemPath: string,
+    ttl: number = DEFAULT_LOCK_TTL,
+    session: XFilesSession | null = null
+  ): Promise<FileLock> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, itemPath, 'write');
+
+    if (!Number.isFinite(ttl) || ttl <= 0) {
+      throw new Error(`Invalid lock TTL: ${ttl}`);
     }
-
-    return { deleted: resolvedPath };
+    const realPath = await this.realPath(resolvedPath);
+    return this.locks.acquire(realPath, owner, this.holderOf(session), Math.min(ttl, MAX_LOCK_TTL), resolvedPath);
   }
 
   /**
-   * Rename/move file or directory
+   * Release the owner's edit lease on a path
+   * (false if they hold none, e.g. because it expired)
    */
-  async renameItem(oldPath: string, newPath: string): Promise<{ oldPath: string; newPath: string }> {
-    const resolvedOld = this.validatePath(oldPath);
-    const resolvedNew = this.validatePath(newPath);
-    await fs.rename(resolvedOld, resolvedNew);
-    return { oldPath: resolvedOld, newPath: resolvedNew };
+  async unlockPath(owner: object, itemPath: string, session: XFilesSession | null = null): Promise<{ unlocked: boolean }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, itemPath);
+    return { unlocked: this.locks.release(await this.realPath(resolvedPath), owner) };
   }
 
   /**
-   * Copy file or directory
+   * Fail with code 'LOCKED' if anyone but the owner holds a lease on a path
+   * (or, for a tree, below it), whichever link the path is reached through
    */
-  async copyItem(source: string, destination: string): Promise<{ source: string; destination: string }> {
-    const resolvedSource = this.validatePath(source);
-    const resolvedDest = this.validatePath(destination);
-    const stats = await fs.stat(resolvedSource);
-
-    if (stats.isDirectory()) {
-      await this.copyDirectoryRecursive(resolvedSource, resolvedDest);
-    } else {
-      await fs.copyFile(resolvedSource, resolvedDest);
-    }
-
-    return { source: resolvedSource, destination: resolvedDest };
+  private async checkLock(resolvedPath: string, owner: object | undefined, tree = false): Promise<void> {
+    if (this.locks.empty) return;
+    this.locks.check(await this.realPath(resolvedPath), owner, tree);
   }
 
-  private async copyDirectoryRecursive(source: string, destination: string): Promise<void> {
-    await fs.mkdir(destination, { recursive: true });
-    const entries = await fs.readdir(source, { withFileTypes: true });
+  /**
+   * Current lease on a path, whichever link the path is reached through
+   */
+  private async lockOf(resolvedPath: string): Promise<FileLock | undefined> {
+    if (this.locks.empty) return undefined;
+    return this.locks.get(await this.realPath(resolvedPath).catch(() => resolvedPath));
+  }
 
-    for (const entry of entries) {
-      const srcPath = path.join(source, entry.name);
-      const destPath = path.join(destination, entry.name);
+  /**
+   * How a lease holder is shown to others: the user's name or id
+   */
+  private holderOf(session: XFilesSession | null): string | undefined {
+    const user = session?.user;
+    if (typeof user === 'string' || typeof user === 'number') return String(user);
 
-      if (entry.isDirectory()) {
-        await this.copyDirectoryRecursive(srcPath, destPath);
-      } else {
-        await fs.copyFile(srcPath, destPath);
-      }
-    }
+    const name = userField(user, 'name') ?? userField(user, 'id');
+    return name === undefined || name === null ? undefined : String(name);
   }
 
   /**
-   * Check if path exists
+   * Tell the watchers of a locked or unlocked path about it
    */
-  async exists(itemPath: string): Promise<{ exists: boolean; isDirectory?: boolean; isFile?: boolean }> {
-    try {
-      const resolvedPath = this.validatePath(itemPath);
-      const stats = await fs.stat(resolvedPath);
-      return {
-        exists: true,
-        isDirectory: stats.isDirectory(),
-        isFile: stats.isFile(),
-      };
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return { exists: false };
+  private notifyLock(type: 'lock' | 'unlock', lockedPath: string): void {
+    for (const [ws, connection] of this.connections) {
+      if (ws.readyState !== WebSocket.OPEN) continue;
+
+      const scope = this.scopeFor(connection.session);
+      for (const watcher of connection.watchers.values()) {
+        if (watcher.covers(lockedPath) && this.permissionsFor(scope, lockedPath).read) {
+          this.send(ws, { type: 'event', event: { watchId: watcher.id, type, path: lockedPath } });
+        }
       }
-      throw error;
     }
   }
 
   /**
-   * Search for files matching pattern
+   * Get the storage usage of the root containing a path, against its quota
    */
-  async searchFiles(
-    dirPath: string,
-    pattern: string,
-    options: { recursive?: boolean; maxResults?: number } = {}
-  ): Promise<FileEntry[]> {
-    const resolvedPath = this.validatePath(dirPath);
-    const { recursive = true, maxResults = 100 } = options;
-    const results: FileEntry[] = [];
-    const regex = new RegExp(pattern, 'i');
+  async getQuota(itemPath: string, session: XFilesSession | null = null): Promise<QuotaInfo> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, itemPath, 'read');
+    const root = this.rootOf(scope, resolvedPath)!;
 
-    await this.searchDirectoryRecursive(resolvedPath, regex, results, recursive, maxResults);
-    return results;
+    if (!this.hasQuota(scope)) {
+      return { root };
+    }
+
+    const usage = await this.usage.get(root);
+    return { root, bytes: usage.bytes, files: usage.files, ...scope.quota };
   }
 
   /**
-   * Upload file with support for binary data
+   * Compute the checksum of a file by streaming it (so it isn't limited by
+   * maxFileSize), and compare it with an expected value if one is given
    */
-  async uploadFile(
+  async hashFile(
     filePath: string,
-    content: string,
-    encoding: BufferEncoding = 'utf-8',
-    isBinary: boolean = false
-  ): Promise<{ path: string; size: number }> {
-    const resolvedPath = this.validatePath(filePath);
+    algorithm: HashAlgorithm = 'sha256',
+    expected?: string,
+    session: XFilesSession | null = null
+  ): Promise<HashResult> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'read');
+
+    if (!HASH_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+    }
 
-    // Handle binary data (base64 encoded)
-    let buffer: Buffer;
-    if (isBinary) {
-      buffer = Buffer.from(content, 'base64');
+    let content: AsyncIterable<Buffer>;
+    const inArchive = splitArchivePath(resolvedPath);
+    if (inArchive) {
+      const entry = await this.archiveEntry(inArchive.archive, inArchive.entry, filePath);
+      if (entry.type !== 'file') {
+        throw new Error(`Not a file: ${filePath}`);
+      }
+      content = readArchiveEntry(this.provider, inArchive.archive, archiveFormat(inArchive.archive)!, inArchive.entry);
     } else {
-      buffer = Buffer.from(content, encoding);
+      if (!(await this.provider.stat(resolvedPath)).isFile) {
+        throw new Error(`Not a file: ${filePath}`);
+      }
+      content = this.provider.createReadStream(resolvedPath);
     }
 
-    // Check file size limit
-    if (buffer.length > this.config.maxFileSize) {
-      throw new Error(`File too large: ${buffer.length} bytes (max: ${this.config.maxFileSize})`);
+    const hasher = algorithm === 'crc32' ? null : createHash(algorithm);
+    let crc = 0;
+    let size = 0;
+    for await (const data of content) {
+      if (hasher) {
+        hasher.update(data);
+      } else {
+        crc = crc32(data, crc);
+      }
+      size += data.length;
     }
 
-    await fs.writeFile(resolvedPath, buffer);
-    const stats = await fs.stat(resolvedPath);
-
-    return { path: resolvedPath, size: stats.size };
+    const hash = hasher ? hasher.digest('hex') : crc.toString(16).padStart(8, '0');
+    return {
+      path: resolvedPath,
+      algorithm,
+      hash,
+      size,
+      ...(expected !== undefined ? { matches: hash === expected.trim().toLowerCase() } : {}),
+    };
   }
 
   /**
-   * Download file with support for binary data
+   * Forget tracked usage so it is scanned again, e.g. after files were
+   * changed outside the handler (all roots, or one)
    */
-  async downloadFile(filePath: string, asBinary: boolean = false): Promise<{ content: string; size: number; isBinary: boolean }> {
-    const resolvedPath = this.validatePath(filePath);
-    const stats = await fs.stat(resolvedPath);
-
-    if (stats.size > this.config.maxFileSize) {
-      throw new Error(`File too large: ${stats.size} bytes (max: ${this.config.maxFileSize})`);
-    }
-
-    // Read file as buffer
-    const buffer = await fs.readFile(resolvedPath);
-
-    // Return content as base64 if binary requested or if file appears to be binary
-    if (asBinary || this.isBinaryFile(buffer)) {
-      return {
-        content: buffer.toString('base64'),
-        size: stats.size,
-        isBinary: true
-      };
+  resetUsage(root?: string): void {
+    this.usage.reset(root === undefined ? undefined : path.resolve(root));
+    if (root === undefined) {
+      this.diskUsage.clear();
     } else {
-      return {
-        content: buffer.toString('utf-8'),
-        size: stats.size,
-        isBinary: false
-      };
+      this.diskUsage.invalidate(path.resolve(root));
     }
   }
 
   /**
-   * Check if buffer contains binary data
+   * Find a root of a session with a quota that overlaps a root of another
+   * user's open connection with a quota (null if there is none)
    */
-  private isBinaryFile(buffer: Buffer): boolean {
-    // Simple check: if file contains null bytes or high percentage of non-printable chars
-    const chunk = buffer.subarray(0, Math.min(8192, buffer.length));
-    let nonPrintable = 0;
+  private sharedQuotaRoot(session: XFilesSession | null): string | null {
+    const scope = this.scopeFor(session);
+    if (!this.hasQuota(scope)) return null;
 
-    for (let i = 0; i < chunk.length; i++) {
-      const byte = chunk[i];
-      // Null byte indicates binary
-      if (byte === 0) {
-        return true;
-      }
-      // Count non-printable ASCII characters (excluding common whitespace)
-      if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 13) {
-        nonPrintable++;
+    const user = this.userKey(session);
+    const roots = scope.allowedPaths.map((root) => path.resolve(root));
+
+    for (const connection of this.connections.values()) {
+      const other = this.scopeFor(connection.session);
+      if (this.userKey(connection.session) === user || !this.hasQuota(other)) continue;
+
+      for (const otherRoot of other.allowedPaths.map((root) => path.resolve(root))) {
+        const shared = roots.find((root) => isWithin(root, otherRoot) || isWithin(otherRoot, root));
+        if (shared) return shared;
       }
     }
+    return null;
+  }
 
-    // If more than 10% non-printable, consider binary
-    return (nonPrintable / chunk.length) > 0.1;
+  private hasQuota(scope: Scope): boolean {
+    return scope.quota.maxBytes !== undefined || scope.quota.maxFiles !== undefined;
+  }
+
+  /**
+   * Measure the usage change of an operation, if a quota or tracked usage
+   * covers the path (null otherwise, so unlimited setups never measure)
+   */
+  private async usageDelta(scope: Scope, resolvedPath: string, measure: () => Promise<Usage>): Promise<Usage | null> {
+    if (!this.hasQuota(scope) && !this.usage.isTracked(resolvedPath)) return null;
+    return measure();
+  }
+
+  /**
+   * Check that a usage change fits the quota of the root containing a path
+   */
+  private async enforceQuota(scope: Scope, resolvedPath: string, delta: Usage): Promise<void> {
+    const root = this.rootOf(scope, resolvedPath);
+    if (!root || !this.hasQuota(scope)) return;
+
+    const { maxBytes, maxFiles } = scope.quota;
+    const usage = await this.usage.get(root);
+
+    if (maxBytes !== undefined && delta.bytes > 0 && usage.bytes + delta.bytes > maxBytes) {
+      throw new OperationError(
+        `Quota exceeded: ${usage.bytes + delta.bytes} bytes (max: ${maxBytes})`,
+        'QUOTA_EXCEEDED'
+      );
+    }
+
+    if (maxFiles !== undefined && delta.files > 0 && usage.files + delta.files > maxFiles) {
+      throw new OperationError(
+        `Quota exceeded: ${usage.files + delta.files} files (max: ${maxFiles})`,
+        'QUOTA_EXCEEDED'
+      );
+    }
+  }
+
+  /**
+   * Usage change from writing a file of the given size over whatever is there now
+   */
+  private async fileDelta(resolvedPath: string, size: number): Promise<Usage> {
+    const existing = await this.usage.measure(resolvedPath);
+    return { bytes: size - existing.bytes, files: 1 - existing.files };
+  }
+
+  /**
+   * Usage change from creating a directory and its missing parents
+   */
+  private async directoryDelta(resolvedPath: string): Promise<Usage> {
+    let files = 0;
+    for (let dir = resolvedPath; dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      if (await this.pathExists(dir)) break;
+      files++;
+    }
+    return { bytes: 0, files };
+  }
+
+  /**
+   * Run a change to a path once the changes queued before it are done, so
+   * a version check and the change it guards act as one step
+   */
+  private async serialize<T>(resolvedPath: string, change: () => Promise<T>): Promise<T> {
+    const result = (this.changes.get(resolvedPath) ?? Promise.resolve()).then(change);
+    const done = result.catch(() => {});
+    this.changes.set(resolvedPath, done);
+
+    try {
+      return await result;
+    } finally {
+      if (this.changes.get(resolvedPath) === done) {
+        this.changes.delete(resolvedPath);
+      }
+    }
+  }
+
+  /**
+   * Fail with CONFLICT unless an item is at the expected version
+   */
+  private async checkVersion(resolvedPath: string, ifMatch: string | undefined): Promise<void> {
+    if (ifMatch === undefined) return;
+
+    const stats = await this.provider.stat(resolvedPath).catch((error) => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    const version = stats ? versionOf(stats) : null;
+
+    if (version !== ifMatch) {
+      throw new OperationError(`Version conflict: ${resolvedPath}`, 'CONFLICT', { path: resolvedPath, version });
+    }
+  }
+
+  /**
+   * Copy a file that is about to be replaced to its backup, if backups are on
+   */
+  private async backUp(scope: Scope, resolvedPath: string): Promise<void> {
+    if (!this.backups) return;
+
+    const stats = await this.provider.stat(resolvedPath).catch((error) => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (!stats?.isFile) return;
+
+    const backupPath = this.backups.pathFor(resolvedPath);
+    const delta = await this.usageDelta(scope, backupPath, () => this.fileDelta(backupPath, stats.size));
+    if (delta) await this.enforceQuota(scope, backupPath, delta);
+    await this.provider.copy(resolvedPath, backupPath);
+    if (delta) this.usage.add(backupPath, delta);
+
+    for (const expiredPath of await this.backups.expired(resolvedPath)) {
+      const removed = await this.usageDelta(scope, expiredPath, () => this.usage.measure(expiredPath));
+      await this.provider.rm(expiredPath, { force: true });
+      if (removed) this.usage.add(expiredPath, { bytes: -removed.bytes, files: -removed.files });
+    }
+  }
+
+  /**
+   * Check whether anything (even a dangling link) exists at a path
+   */
+  private async pathExists(resolvedPath: string): Promise<boolean> {
+    try {
+      await (this.provider.lstat ?? this.provider.stat).call(this.provider, resolvedPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Build the entry for a path. Symbolic links are described by their
+   * target when the symlink policy lets clients follow them.
+   */
+  private async toFileEntry(scope: Scope, entryPath: string): Promise<FileEntry> {
+    const lock = await this.lockOf(entryPath);
+    let stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, entryPath);
+    const isSymlink = stats.isSymbolicLink === true;
+    let linkTarget: string | undefined;
+
+    if (isSymlink) {
+      linkTarget = await this.provider.readlink?.(entryPath);
+      if (await this.isRealPathAllowed(scope, entryPath)) {
+        // Dangling links keep their own stats
+        stats = await this.provider.stat(entryPath).catch(() => stats);
+      }
+    }
+
+    return {
+      name: path.basename(entryPath),
+      path: entryPath,
+      isDirectory: stats.isDirectory,
+      isFile: stats.isFile,
+      size: stats.size,
+      modified: stats.mtime.toISOString(),
+      created: stats.birthtime.toISOString(),
+      version: versionOf(stats),
+      ...(isSymlink ? { isSymlink, linkTarget } : {}),
+      ...(lock ? { lock } : {}),
+    };
+  }
+
+  /**
+   * Read file contents
+   */
+  async readFile(
+    filePath: string,
+    encoding: BufferEncoding = 'utf-8',
+    session: XFilesSession | null = null
+  ): Promise<{ content: string; size: number; version?: string }> {
+    const { content, ...rest } = await this.readFileBuffer(filePath, session);
+    return { content: content.toString(encoding), ...rest };
+  }
+
+  /**
+   * Read file contents as raw bytes
+   */
+  private async readFileBuffer(
+    filePath: string,
+    session: XFilesSession | null = null
+  ): Promise<{ content: Buffer; size: number; version?: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'read');
+    const inArchive = splitArchivePath(resolvedPath);
+
+    if (inArchive) {
+      return this.readArchiveFile(scope, inArchive.archive, inArchive.entry, filePath);
+    }
+
+    const stats = await this.provider.stat(resolvedPath);
+
+    if (stats.size > scope.maxFileSize) {
+      throw new Error(`File too large: ${stats.size} bytes (max: ${scope.maxFileSize})`);
+    }
+
+    const content = await this.provider.read(resolvedPath);
+    return { content, size: stats.size, version: versionOf(stats) };
+  }
+
+  /**
+   * List a directory inside an archive
+   */
+  private async listArchive(archivePath: string, entryPath: string, displayPath: string): Promise<FileEntry[]> {
+    const entries = (await this.archiveTree(archivePath)).list(entryPath);
+    if (!entries) {
+      throw new Error(`Not a directory: ${displayPath}`);
+    }
+    return entries.map((entry) => this.toArchiveFileEntry(archivePath, entry));
+  }
+
+  /**
+   * Read a file inside an archive
+   */
+  private async readArchiveFile(
+    scope: Scope,
+    archivePath: string,
+    entryPath: string,
+    displayPath: string
+  ): Promise<{ content: Buffer; size: number }> {
+    const entry = await this.archiveEntry(archivePath, entryPath, displayPath);
+    if (entry.type !== 'file') {
+      throw new Error(`Not a file: ${displayPath}`);
+    }
+
+    if (entry.size > scope.maxFileSize) {
+      throw new Error(`File too large: ${entry.size} bytes (max: ${scope.maxFileSize})`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const data of readArchiveEntry(this.provider, archivePath, archiveFormat(archivePath)!, entryPath)) {
+      chunks.push(data);
+    }
+    return { content: Buffer.concat(chunks), size: entry.size };
+  }
+
+  private async archiveEntry(archivePath: string, entryPath: string, displayPath: string): Promise<ArchiveEntry> {
+    const entry = (await this.archiveTree(archivePath)).get(entryPath);
+    if (!entry) {
+      throw new Error(`Not found in archive: ${displayPath}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Get the entries of an archive, read once and kept until the archive changes
+   */
+  private async archiveTree(archivePath: string): Promise<ArchiveTree> {
+    const stats = await this.provider.stat(archivePath);
+    const format = archiveFormat(archivePath);
+    if (!stats.isFile || !format) {
+      throw new Error(`Not an archive: ${archivePath}`);
+    }
+
+    const version = `${stats.size}:${stats.mtime.getTime()}`;
+    let cached = this.archiveTrees.get(archivePath);
+    if (cached?.version !== version) {
+      const tree = ArchiveTree.read(this.provider, archivePath, format, this.config.maxArchiveEntries);
+      cached = { version, tree };
+      // Let a failed read be retried
+      tree.catch(() => {
+        if (this.archiveTrees.get(archivePath)?.tree === tree) this.archiveTrees.delete(archivePath);
+      });
+    }
+
+    // Most recently used last, so the first one is dropped when the cache is full
+    this.archiveTrees.delete(archivePath);
+    this.archiveTrees.set(archivePath, cached);
+    if (this.archiveTrees.size > MAX_CACHED_ARCHIVES) {
+      this.archiveTrees.delete(this.archiveTrees.keys().next().value!);
+    }
+
+    return cached.tree;
+  }
+
+  private toArchiveFileEntry(archivePath: string, entry: ArchiveEntry): FileEntry {
+    const modified = entry.modified.toISOString();
+    return {
+      name: entry.path ? path.posix.basename(entry.path) : path.basename(archivePath),
+      path: entry.path ? `${archivePath}!/${entry.path}` : `${archivePath}!`,
+      isDirectory: entry.type === 'directory',
+      isFile: entry.type === 'file',
+      size: entry.size,
+      modified,
+      created: modified,
+    };
+  }
+
+  /**
+   * Write file contents (raw bytes from a binary frame are written as-is)
+   */
+  async writeFile(
+    filePath: string,
+    content: string | Buffer,
+    encoding: BufferEncoding = 'utf-8',
+    session: XFilesSession | null = null,
+    precondition: Precondition & LockContext = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'write');
+    const contentSize = Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content, encoding);
+
+    if (contentSize > scope.maxFileSize) {
+      throw new Error(`Content too large: ${contentSize} bytes (max: ${scope.maxFileSize})`);
+    }
+
+    return this.serialize(resolvedPath, async () => {
+      await this.checkVersion(resolvedPath, precondition.ifMatch);
+      await this.checkLock(resolvedPath, precondition.lockOwner);
+      await this.backUp(scope, resolvedPath);
+
+      const delta = await this.usageDelta(scope, resolvedPath, () => this.fileDelta(resolvedPath, contentSize));
+      if (delta) await this.enforceQuota(scope, resolvedPath, delta);
+
+      await this.provider.write(resolvedPath, Buffer.isBuffer(content) ? content : Buffer.from(content, encoding));
+      if (delta) this.usage.add(resolvedPath, delta);
+      this.diskUsage.invalidate(resolvedPath);
+      const stats = await this.provider.stat(resolvedPath);
+
+      return { path: resolvedPath, size: stats.size, version: versionOf(stats) };
+    });
+  }
+
+  /**
+   * Create directory
+   */
+  async createDirectory(dirPath: string, session: XFilesSession | null = null): Promise<{ path: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'write');
+
+    const delta = await this.usageDelta(scope, resolvedPath, () => this.directoryDelta(resolvedPath));
+    if (delta) await this.enforceQuota(scope, resolvedPath, delta);
+
+    await this.provider.mkdir(resolvedPath, { recursive: true });
+    if (delta) this.usage.add(resolvedPath, delta);
+    this.diskUsage.invalidate(resolvedPath);
+    return { path: resolvedPath };
+  }
+
+  /**
+   * Delete file or directory (moving it to the trash in trash mode)
+   */
+  async deleteItem(
+    itemPath: string,
+    session: XFilesSession | null = null,
+    options: OperationControl & Precondition & LockContext = {}
+  ): Promise<{ deleted: string; trashId?: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, itemPath, 'delete');
+    await this.checkTreePermission(scope, resolvedPath, 'delete');
+    throwIfCancelled(options);
+
+    return this.serialize(resolvedPath, async () => {
+      await this.checkVersion(resolvedPath, options.ifMatch);
+      await this.checkLock(resolvedPath, options.lockOwner, true);
+
+      if (this.trash) {
+        const item = await this.moveToTrash(scope, resolvedPath);
+        this.diskUsage.invalidate(resolvedPath);
+        return { deleted: resolvedPath, trashId: item.id };
+      }
+
+      const removed = await this.usageDelta(scope, resolvedPath, () => this.usage.measure(resolvedPath));
+      try {
+        await this.removeTree(resolvedPath, new ProgressTracker(options));
+      } finally {
+        this.diskUsage.invalidate(resolvedPath);
+        if (removed) {
+          // A cancelled or failed delete leaves part of the tree behind
+          const left = (await this.pathExists(resolvedPath)) ? await this.usage.measure(resolvedPath) : { bytes: 0, files: 0 };
+          this.usage.add(resolvedPath, { bytes: left.bytes - removed.bytes, files: left.files - removed.files });
+        }
+      }
+      return { deleted: resolvedPath };
+    });
+  }
+
+  /**
+   * Remove a file or directory tree entry by entry, deepest first
+   */
+  private async removeTree(itemPath: string, tracker: ProgressTracker): Promise<void> {
+    const stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, itemPath);
+    const isDirectory = stats.isDirectory && !stats.isSymbolicLink;
+
+    if (isDirectory) {
+      for (const entry of await this.provider.list(itemPath)) {
+        await this.removeTree(path.join(itemPath, entry.name), tracker);
+      }
+    }
+
+    // The directory is empty by now
+    await this.provider.rm(itemPath, { recursive: isDirectory });
+    tracker.step(itemPath, isDirectory ? 0 : stats.size);
+  }
+
+  /**
+   * List deleted items, in the trash of the root containing a path
+   * or of every root
+   */
+  async listTrash(dirPath?: string, session: XFilesSession | null = null): Promise<TrashItem[]> {
+    const scope = this.scopeFor(session);
+    const trash = this.requireTrash();
+    const roots = dirPath === undefined
+      ? this.trashRoots(scope)
+      : [this.rootOf(scope, await this.validatePath(scope, dirPath, 'read'))!];
+    const items: TrashItem[] = [];
+
+    for (const root of roots) {
+      for (const item of await trash.list(root)) {
+        if (trash.isExpired(item)) {
+          await this.purgeTrashItem(item).catch((error) => console.error('[x-files] Trash expiry error:', error));
+        } else if (this.permissionsFor(scope, item.originalPath).read) {
+          items.push(item);
+        }
+      }
+    }
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Move an item out of the trash, to where it was deleted from
+   * or to another destination
+   */
+  async restoreFromTrash(
+    id: string,
+    options: { destination?: string; conflict?: RestoreConflict } & LockContext = {},
+    session: XFilesSession | null = null
+  ): Promise<{ path: string }> {
+    const scope = this.scopeFor(session);
+    const trash = this.requireTrash();
+    const item = await trash.find(this.trashRoots(scope), id);
+    const { conflict = 'fail' } = options;
+    // listTrash hides items the session can't see; restoring them by id is refused the same way
+    this.checkPermission(scope, item.originalPath, 'read');
+    this.checkPermission(scope, item.originalPath, 'write');
+    const requested = await this.validatePath(scope, options.destination ?? item.originalPath, 'write');
+
+    return this.serialize(requested, async () => {
+      let target = requested;
+      if (await this.pathExists(target)) {
+        if (conflict === 'rename') {
+          target = await this.availablePath(target);
+        } else if (conflict === 'overwrite') {
+          this.checkPermission(scope, target, 'delete');
+          await this.checkTreePermission(scope, target, 'delete');
+          await this.checkLock(target, options.lockOwner, true);
+          await this.moveToTrash(scope, target);
+        } else {
+          throw new OperationError(`Restore target exists: ${target}`, 'TARGET_EXISTS', { path: target });
+        }
+      } else {
+        await this.checkLock(target, options.lockOwner, true);
+      }
+
+      // Missing parents are recreated; usage only changes when the item leaves its root
+      const parent = path.dirname(target);
+      const stored = await this.usageDelta(scope, target, () => this.trashUsage(item));
+      let added: Usage | null = null;
+      if (stored) {
+        const parents = await this.directoryDelta(parent);
+        const content = await this.usage.measure(trash.pathOf(item));
+        added = { bytes: content.bytes, files: content.files + parents.files };
+        await this.enforceQuota(scope, target, this.rootOf(scope, target) === item.root ? parents : added);
+      }
+
+      await this.provider.mkdir(parent, { recursive: true });
+      await trash.restore(item, target);
+      if (stored && added) {
+        this.usage.add(trash.pathOf(item), { bytes: -stored.bytes, files: -stored.files });
+        this.usage.add(target, added);
+      }
+      this.diskUsage.invalidate(target);
+      return { path: target };
+    });
+  }
+
+  /**
+   * Delete an item from the trash permanently, or empty the trash
+   * (of every item the session may delete)
+   */
+  async purgeTrash(id?: string, session: XFilesSession | null = null): Promise<{ purged: number }> {
+    const scope = this.scopeFor(session);
+    const trash = this.requireTrash();
+    const roots = this.trashRoots(scope);
+
+    if (id !== undefined) {
+      const item = await trash.find(roots, id);
+      this.checkPermission(scope, item.originalPath, 'delete');
+      await this.purgeTrashItem(item);
+      return { purged: 1 };
+    }
+
+    let purged = 0;
+    for (const root of roots) {
+      for (const item of await trash.list(root)) {
+        if (!this.permissionsFor(scope, item.originalPath).delete) continue;
+        await this.purgeTrashItem(item);
+        purged++;
+      }
+    }
+    return { purged };
+  }
+
+  private requireTrash(): Trash {
+    if (!this.trash) {
+      throw new Error('Trash is not enabled');
+    }
+    return this.trash;
+  }
+
+  private trashRoots(scope: Scope): string[] {
+    return [...new Set(scope.allowedPaths.map((allowedPath) => path.resolve(allowedPath)))];
+  }
+
+  private async moveToTrash(scope: Scope, resolvedPath: string): Promise<TrashItem> {
+    const trash = this.requireTrash();
+    const root = this.rootOf(scope, resolvedPath)!;
+    if (root === resolvedPath) {
+      throw new Error(`Cannot move a root to the trash: ${resolvedPath}`);
+    }
+
+    await this.expireTrash(root);
+
+    // The item stays in its root; only the trash record is new
+    const created = this.usage.isTracked(root) ? await this.directoryDelta(trash.dirOf(root)) : null;
+    const item = await trash.add(root, resolvedPath);
+    if (created) {
+      const record = await this.usage.measure(`${trash.pathOf(item)}.json`);
+      this.usage.add(trash.pathOf(item), { bytes: record.bytes, files: created.files + record.files });
+    }
+    return item;
+  }
+
+  /**
+   * Usage of a trashed item, including its record
+   */
+  private async trashUsage(item: TrashItem): Promise<Usage> {
+    const trash = this.requireTrash();
+    const content = await this.usage.measure(trash.pathOf(item));
+    const record = await this.usage.measure(`${trash.pathOf(item)}.json`);
+    return { bytes: content.bytes + record.bytes, files: content.files + record.files };
+  }
+
+  private async purgeTrashItem(item: TrashItem): Promise<void> {
+    const trash = this.requireTrash();
+    const removed = this.usage.isTracked(item.root) ? await this.trashUsage(item) : null;
+    await trash.remove(item);
+    if (removed) this.usage.add(trash.pathOf(item), { bytes: -removed.bytes, files: -removed.files });
+  }
+
+  /**
+   * Purge the items of a root that are past their retention period
+   */
+  private async expireTrash(root: string): Promise<void> {
+    for (const item of await this.requireTrash().expired(root)) {
+      await this.purgeTrashItem(item).catch((error) => console.error('[x-files] Trash expiry error:', error));
+    }
+  }
+
+  /**
+   * Find a free path next to an existing one: "name (1).ext", "name (2).ext", ...
+   */
+  private async availablePath(resolvedPath: string): Promise<string> {
+    const ext = path.extname(resolvedPath);
+    const base = resolvedPath.slice(0, resolvedPath.length - ext.length);
+
+    for (let i = 1; ; i++) {
+      const candidate = `${base} (${i})${ext}`;
+      if (!(await this.pathExists(candidate))) return candidate;
+    }
+  }
+
+  /**
+   * Rename/move file or directory
+   */
+  async renameItem(
+    oldPath: string,
+    newPath: string,
+    session: XFilesSession | null = null,
+    precondition: Precondition & LockContext = {}
+  ): Promise<{ oldPath: string; newPath: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedOld = await this.validatePath(scope, oldPath, 'write');
+    const resolvedNew = await this.validatePath(scope, newPath, 'write');
+    await this.checkTreePermission(scope, resolvedOld, 'write');
+
+    return this.serialize(resolvedOld, async () => {
+      await this.checkVersion(resolvedOld, precondition.ifMatch);
+      await this.checkLock(resolvedOld, precondition.lockOwner, true);
+      await this.checkLock(resolvedNew, precondition.lockOwner, true);
+
+      // Usage only changes between roots, and by whatever the move replaces
+      let moved: Usage | null = null;
+      let replaced: Usage | null = null;
+      if (this.hasQuota(scope) || this.usage.isTracked(resolvedOld) || this.usage.isTracked(resolvedNew)) {
+        moved = await this.usage.measure(resolvedOld);
+        replaced = await this.usage.measure(resolvedNew);
+        if (this.rootOf(scope, resolvedOld) !== this.rootOf(scope, resolvedNew)) {
+          await this.enforceQuota(scope, resolvedNew, { bytes: moved.bytes - replaced.bytes, files: moved.files - replaced.files });
+        }
+      }
+
+      await this.provider.rename(resolvedOld, resolvedNew);
+      this.diskUsage.invalidate(resolvedOld);
+      this.diskUsage.invalidate(resolvedNew);
+      if (moved && replaced) {
+        this.usage.add(resolvedOld, { bytes: -moved.bytes, files: -moved.files });
+        this.usage.add(resolvedNew, { bytes: moved.bytes - replaced.bytes, files: moved.files - replaced.files });
+      }
+      return { oldPath: resolvedOld, newPath: resolvedNew };
+    });
+  }
+
+  /**
+   * Copy file or directory
+   */
+  async copyItem(
+    source: string,
+    destination: string,
+    session: XFilesSession | null = null,
+    control: OperationControl & LockContext = {}
+  ): Promise<{ source: string; destination: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedSource = await this.validatePath(scope, source, 'read');
+    const resolvedDest = await this.validatePath(scope, destination, 'write');
+    const stats = await this.provider.stat(resolvedSource);
+
+    return this.serialize(resolvedDest, async () => {
+      await this.checkLock(resolvedDest, control.lockOwner, true);
+
+      // Directory copies merge into the destination, so check against the
+      // whole source and track what actually changed
+      const before = await this.usageDelta(scope, resolvedDest, () => this.usage.measure(resolvedDest));
+      if (before) {
+        const incoming = await this.usage.measure(resolvedSource);
+        await this.enforceQuota(scope, resolvedDest, stats.isDirectory
+          ? incoming
+          : { bytes: incoming.bytes - before.bytes, files: incoming.files - before.files });
+      }
+
+      const tracker = new ProgressTracker(control);
+      throwIfCancelled(control);
+      try {
+        if (stats.isDirectory) {
+          await this.copyDirectoryRecursive(scope, resolvedSource, resolvedDest, tracker);
+        } else {
+          await this.provider.copy(resolvedSource, resolvedDest);
+          tracker.step(resolvedSource, stats.size);
+        }
+      } finally {
+        this.diskUsage.invalidate(resolvedDest);
+        if (before) {
+          const after = await this.usage.measure(resolvedDest);
+          this.usage.add(resolvedDest, { bytes: after.bytes - before.bytes, files: after.files - before.files });
+        }
+      }
+
+      return { source: resolvedSource, destination: resolvedDest };
+    });
+  }
+
+  private async copyDirectoryRecursive(scope: Scope, source: string, destination: string, tracker: ProgressTracker): Promise<void> {
+    await this.provider.mkdir(destination, { recursive: true });
+    tracker.step(source);
+    const entries = await this.provider.list(source);
+
+    for (const entry of entries) {
+      const srcPath = path.join(source, entry.name);
+      const destPath = path.join(destination, entry.name);
+
+      // Links inside the tree must not smuggle content in from outside the roots
+      if (entry.isSymbolicLink && !(await this.isRealPathAllowed(scope, srcPath))) {
+        throw new Error(`Access denied: ${srcPath}`);
+      }
+      this.checkPermission(scope, srcPath, 'read');
+      this.checkPermission(scope, destPath, 'write');
+
+      if (entry.isDirectory) {
+        await this.copyDirectoryRecursive(scope, srcPath, destPath, tracker);
+      } else {
+        await this.provider.copy(srcPath, destPath);
+        tracker.step(srcPath, (await this.provider.stat(destPath)).size);
+      }
+    }
+  }
+
+  /**
+   * Check if path exists
+   */
+  async exists(
+    itemPath: string,
+    session: XFilesSession | null = null
+  ): Promise<{ exists: boolean; isDirectory?: boolean; isFile?: boolean }> {
+    try {
+      const resolvedPath = await this.validatePath(this.scopeFor(session), itemPath, 'read');
+      const stats = await this.provider.stat(resolvedPath);
+      return {
+        exists: true,
+        isDirectory: stats.isDirectory,
+        isFile: stats.isFile,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { exists: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Search for files matching pattern (and the filters in options)
+   */
+  async searchFiles(
+    dirPath: string,
+    pattern: string,
+    options: SearchOptions = {},
+    session: XFilesSession | null = null,
+    control: OperationControl = {}
+  ): Promise<FileEntry[]> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+    const { recursive = true, maxResults = 100 } = options;
+    const maxDepth = recursive ? options.maxDepth ?? Infinity : 1;
+    const search = compileSearch(pattern, options);
+    const relativeTo = (entryPath: string) => path.relative(resolvedPath, entryPath).split(path.sep).join('/');
+    const results: FileEntry[] = [];
+    const tracker = new ProgressTracker(control);
+
+    const entries = this.walkTree(scope, resolvedPath, maxDepth, (entryPath) => search.excludes(relativeTo(entryPath)));
+    for await (const { path: entryPath, entry } of entries) {
+      if (results.length >= maxResults) break;
+      tracker.step(entryPath);
+      if (!search.matches(relativeTo(entryPath), entry.name)) continue;
+
+      let fileEntry: FileEntry;
+      try {
+        fileEntry = await this.toFileEntry(scope, entryPath);
+      } catch {
+        // Skip inaccessible
+        continue;
+      }
+
+      if (search.accepts(fileEntry)) {
+        results.push(fileEntry);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Search file contents, pushing each matching file as a match message
+   * before the final result. Binary files and files above the size cap
+   * are skipped.
+   */
+  private async searchContent(
+    ws: WebSocket,
+    requestId: number,
+    dirPath: string,
+    pattern: string,
+    options: ContentSearchOptions = {},
+    session: XFilesSession | null = null,
+    control: StreamControl = {}
+  ): Promise<{ path: string; files: number; truncated: boolean }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+    const { recursive = true, caseSensitive = false, maxResults = 100, maxMatchesPerFile = 100, contextLines = 2 } = options;
+    const maxFileSize = Math.min(options.maxFileSize ?? DEFAULT_CONTENT_SEARCH_FILE_SIZE, scope.maxFileSize);
+    const regex = new RegExp(pattern, caseSensitive ? 'g' : 'gi');
+    let files = 0;
+
+    for await (const { path: entryPath, entry } of this.walkTree(scope, resolvedPath, recursive ? Infinity : 1)) {
+      throwIfCancelled(control);
+      if (files >= maxResults) break;
+      if (entry.isDirectory) continue;
+
+      // Links inside the tree must not expose content from outside the roots
+      if (entry.isSymbolicLink && !(await this.isRealPathAllowed(scope, entryPath))) continue;
+
+      let match: ContentMatch | null;
+      try {
+        match = await this.matchFileContent(scope, entryPath, regex, maxFileSize, maxMatchesPerFile, contextLines);
+      } catch {
+        // Skip unreadable files
+        continue;
+      }
+      if (!match) continue;
+
+      await this.beforeChunk(ws, control, files);
+      files++;
+      this.send(ws, { type: 'match', requestId, match });
+    }
+
+    return { path: resolvedPath, files, truncated: files >= maxResults };
+  }
+
+  /**
+   * Find the matching lines of one file (null if none match, or if the
+   * file is skipped for its size or binary content)
+   */
+  private async matchFileContent(
+    scope: Scope,
+    filePath: string,
+    regex: RegExp,
+    maxFileSize: number,
+    maxMatches: number,
+    contextLines: number
+  ): Promise<ContentMatch | null> {
+    const stats = await this.provider.stat(filePath);
+    if (!stats.isFile || stats.size > maxFileSize) return null;
+
+    const content = await this.provider.read(filePath);
+    if (this.isBinaryFile(content)) return null;
+
+    const lines = content.toString('utf-8').split(/\r?\n/);
+    const matches: LineMatch[] = [];
+    let truncated = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const ranges: LineMatch['ranges'] = [];
+      regex.lastIndex = 0;
+
+      for (let found = regex.exec(lines[i]); found; found = regex.exec(lines[i])) {
+        ranges.push({ start: found.index, end: found.index + found[0].length });
+        // Step over empty matches so the scan always advances
+        if (found[0].length === 0) regex.lastIndex++;
+      }
+      if (ranges.length === 0) continue;
+
+      if (matches.length >= maxMatches) {
+        truncated = true;
+        break;
+      }
+      matches.push({
+        line: i + 1,
+        text: lines[i],
+        ranges,
+        before: lines.slice(Math.max(0, i - contextLines), i),
+        after: lines.slice(i + 1, i + 1 + contextLines),
+      });
+    }
+
+    if (matches.length === 0) return null;
+    return { file: await this.toFileEntry(scope, filePath), matches, truncated };
+  }
+
+  /**
+   * Upload file with support for binary data
+   */
+  async uploadFile(
+    filePath: string,
+    content: string | Buffer,
+    encoding: BufferEncoding = 'utf-8',
+    isBinary: boolean = false,
+    session: XFilesSession | null = null,
+    precondition: Precondition & LockContext = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'write');
+
+    // Handle binary data (raw from a binary frame, or base64 encoded)
+    let buffer: Buffer;
+    if (Buffer.isBuffer(content)) {
+      buffer = content;
+    } else if (isBinary) {
+      buffer = Buffer.from(content, 'base64');
+    } else {
+      buffer = Buffer.from(content, encoding);
+    }
+
+    // Check file size limit
+    if (buffer.length > scope.maxFileSize) {
+      throw new Error(`File too large: ${buffer.length} bytes (max: ${scope.maxFileSize})`);
+    }
+
+    return this.serialize(resolvedPath, async () => {
+      await this.checkVersion(resolvedPath, precondition.ifMatch);
+      await this.checkLock(resolvedPath, precondition.lockOwner);
+      await this.backUp(scope, resolvedPath);
+
+      const delta = await this.usageDelta(scope, resolvedPath, () => this.fileDelta(resolvedPath, buffer.length));
+      if (delta) await this.enforceQuota(scope, resolvedPath, delta);
+
+      await this.provider.write(resolvedPath, buffer);
+      if (delta) this.usage.add(resolvedPath, delta);
+      this.diskUsage.invalidate(resolvedPath);
+      const stats = await this.provider.stat(resolvedPath);
+
+      return { path: resolvedPath, size: stats.size, version: versionOf(stats) };
+    });
+  }
+
+  /**
+   * Start a chunked upload, or resume an existing one by passing its uploadId.
+   * Chunks are written to a temp file next to the destination.
+   */
+  async beginUpload(
+    filePath: string,
+    size: number,
+    uploadId?: string,
+    session: XFilesSession | null = null,
+    precondition: Precondition & LockContext = {}
+  ): Promise<UploadSession> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'write');
+
+    if (uploadId) {
+      const upload = this.getUpload(uploadId, session);
+      if (upload.path !== resolvedPath) {
+        throw new Error(`Upload ${uploadId} does not target ${filePath}`);
+      }
+      // A precondition sent on resume replaces the one the upload began with
+      if (precondition.ifMatch !== undefined) {
+        await this.checkVersion(resolvedPath, precondition.ifMatch);
+        upload.ifMatch = precondition.ifMatch;
+      }
+      await this.checkLock(resolvedPath, precondition.lockOwner);
+      this.touchUpload(upload);
+      return this.describeUpload(upload);
+    }
+
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new Error(`Invalid upload size: ${size}`);
+    }
+
+    if (size > scope.maxUploadSize) {
+      throw new Error(`Upload too large: ${size} bytes (max: ${scope.maxUploadSize})`);
+    }
+
+    // Fail early; commit checks again against the version and usage at that point
+    await this.checkVersion(resolvedPath, precondition.ifMatch);
+    await this.checkLock(resolvedPath, precondition.lockOwner);
+    const delta = await this.usageDelta(scope, resolvedPath, () => this.fileDelta(resolvedPath, size));
+    if (delta) await this.enforceQuota(scope, resolvedPath, delta);
+
+    const id = randomUUID();
+    const tempPath = path.join(path.dirname(resolvedPath), `.${path.basename(resolvedPath)}.${id}.upload`);
+    const writer = await this.provider.createWriteStream(tempPath);
+
+    const upload: PendingUpload = {
+      id,
+      path: resolvedPath,
+      tempPath,
+      size,
+      offset: 0,
+      nextIndex: 0,
+      writer,
+      owner: this.ownerOf(session),
+      ifMatch: precondition.ifMatch,
+      busy: false,
+      timer: null,
+    };
+    this.uploads.set(id, upload);
+    this.touchUpload(upload);
+
+    return this.describeUpload(upload);
+  }
+
+  /**
+   * Append the next numbered chunk (base64, or raw from a binary frame) to an upload
+   */
+  async writeUploadChunk(
+    uploadId: string,
+    index: number,
+    content: string | Buffer,
+    session: XFilesSession | null = null
+  ): Promise<UploadSession> {
+    const { maxFileSize } = this.scopeFor(session);
+    const upload = this.getUpload(uploadId, session);
+
+    if (upload.busy) {
+      throw new Error(`Upload busy: ${uploadId}`);
+    }
+
+    if (index !== upload.nextIndex) {
+      throw new Error(`Unexpected chunk ${index} (expected ${upload.nextIndex})`);
+    }
+
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, 'base64');
+
+    if (buffer.length > maxFileSize) {
+      throw new Error(`Chunk too large: ${buffer.length} bytes (max: ${maxFileSize})`);
+    }
+
+    if (upload.offset + buffer.length > upload.size) {
+      throw new Error(`Chunk exceeds upload size: ${upload.offset + buffer.length} of ${upload.size} bytes`);
+    }
+
+    upload.busy = true;
+    try {
+      await upload.writer.write(buffer);
+      upload.offset += buffer.length;
+      upload.nextIndex++;
+    } finally {
+      upload.busy = false;
+      this.touchUpload(upload);
+    }
+
+    return this.describeUpload(upload);
+  }
+
+  /**
+   * Finish an upload by moving the temp file over the destination
+   */
+  async commitUpload(
+    uploadId: string,
+    session: XFilesSession | null = null,
+    options: LockContext = {}
+  ): Promise<{ path: string; size: number; version: string }> {
+    const scope = this.scopeFor(session);
+    const upload = this.getUpload(uploadId, session);
+
+    if (upload.busy) {
+      throw new Error(`Upload busy: ${uploadId}`);
+    }
+
+    if (upload.offset !== upload.size) {
+      throw new Error(`Upload incomplete: ${upload.offset} of ${upload.size} bytes`);
+    }
+
+    // Access may have changed since the upload began
+    await this.validatePath(scope, upload.path, 'write');
+
+    upload.busy = true;
+    try {
+      return await this.serialize(upload.path, async () => {
+        // Until the temp file is moved into place, a refused commit keeps the
+        // upload, so it can be committed again (e.g. once a lease ends) or aborted
+        await this.checkVersion(upload.path, upload.ifMatch);
+        await this.checkLock(upload.path, options.lockOwner);
+        const delta = await this.usageDelta(scope, upload.path, () => this.fileDelta(upload.path, upload.size));
+        if (delta) await this.enforceQuota(scope, upload.path, delta);
+        await this.backUp(scope, upload.path);
+
+        this.forgetUpload(upload);
+        try {
+          await upload.writer.close();
+          await this.replaceWithTemp(upload.tempPath, upload.path);
+        } catch (error) {
+          await this.provider.rm(upload.tempPath, { force: true });
+          throw error;
+        }
+        if (delta) this.usage.add(upload.path, delta);
+        this.diskUsage.invalidate(upload.path);
+
+        const stats = await this.provider.stat(upload.path);
+        return { path: upload.path, size: stats.size, version: versionOf(stats) };
+      });
+    } finally {
+      upload.busy = false;
+    }
+  }
+
+  /**
+   * Move a finished temp file over its destination, as a write would replace it
+   */
+  private async replaceWithTemp(tempPath: string, filePath: string): Promise<void> {
+    if (this.provider.replace) {
+      await this.provider.replace(tempPath, filePath);
+    } else {
+      await this.provider.rename(tempPath, filePath);
+    }
+  }
+
+  /**
+   * Cancel an upload and remove its temp file
+   */
+  async abortUpload(uploadId: string, session: XFilesSession | null = null): Promise<{ uploadId: string }> {
+    const upload = this.getUpload(uploadId, session);
+    if (upload.busy) {
+      throw new Error(`Upload busy: ${uploadId}`);
+    }
+
+    await this.discardUpload(upload);
+    return { uploadId };
+  }
+
+  /**
+   * Get an upload started by the same owner as a session
+   * (others' uploads are reported as unknown)
+   */
+  private getUpload(uploadId: string, session: XFilesSession | null): PendingUpload {
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.owner !== this.ownerOf(session)) {
+      throw new Error(`Unknown upload: ${uploadId}`);
+    }
+    return upload;
+  }
+
+  /**
+   * Who may continue an upload: the same user (across their connections,
+   * so uploads resume after reconnecting), else the same session
+   */
+  private ownerOf(session: XFilesSession | null): unknown {
+    return this.userKey(session) ?? session;
+  }
+
+  private describeUpload(upload: PendingUpload): UploadSession {
+    return {
+      uploadId: upload.id,
+      path: upload.path,
+      size: upload.size,
+      offset: upload.offset,
+      nextIndex: upload.nextIndex,
+    };
+  }
+
+  /**
+   * Restart the inactivity timer of an upload
+   */
+  private touchUpload(upload: PendingUpload): void {
+    if (upload.timer) {
+      clearTimeout(upload.timer);
+    }
+    upload.timer = setTimeout(() => {
+      this.discardUpload(upload).catch(() => {});
+    }, this.config.uploadTimeout);
+    upload.timer.unref?.();
+  }
+
+  private forgetUpload(upload: PendingUpload): void {
+    if (upload.timer) {
+      clearTimeout(upload.timer);
+      upload.timer = null;
+    }
+    this.uploads.delete(upload.id);
+  }
+
+  private async discardUpload(upload: PendingUpload): Promise<void> {
+    this.forgetUpload(upload);
+    await upload.writer.close().catch(() => {});
+    await this.provider.rm(upload.tempPath, { force: true });
+  }
+
+  /**
+   * Download file with support for binary data
+   */
+  async downloadFile(
+    filePath: string,
+    asBinary: boolean = false,
+    session: XFilesSession | null = null
+  ): Promise<{ content: string; size: number; isBinary: boolean }> {
+    const { content, size, isBinary } = await this.downloadFileBuffer(filePath, asBinary, session);
+
+    // Return content as base64 if binary requested or if file appears to be binary
+    return {
+      content: content.toString(isBinary ? 'base64' : 'utf-8'),
+      size,
+      isBinary
+    };
+  }
+
+  /**
+   * Download file as raw bytes, flagging whether it is binary
+   */
+  private async downloadFileBuffer(
+    filePath: string,
+    asBinary: boolean = false,
+    session: XFilesSession | null = null
+  ): Promise<{ content: Buffer; size: number; isBinary: boolean }> {
+    const { content, size } = await this.readFileBuffer(filePath, session);
+    return { content, size, isBinary: asBinary || this.isBinaryFile(content) };
+  }
+
+  /**
+   * Subscribe a connection to change events in a directory
+   */
+  private async watchDirectory(ws: WebSocket, dirPath: string, options: WatchOptions = {}): Promise<{ watchId: number; path: string }> {
+    const connection = this.connections.get(ws);
+    if (!connection) {
+      throw new Error('Connection closed');
+    }
+
+    const scope = this.scopeFor(connection.session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+    const stats = await this.provider.stat(resolvedPath);
+    if (!stats.isDirectory) {
+      throw new Error(`Not a directory: ${dirPath}`);
+    }
+
+    const watchId = this.nextWatchId++;
+    const watcher = new DirectoryWatcher(watchId, resolvedPath, this.provider, (event: WatchEvent) => {
+      // The watcher has closed itself; the client subscribes again if it still wants events
+      if (event.type === 'error' && connection.watchers.get(watchId) === watcher) {
+        connection.watchers.delete(watchId);
+      }
+      if (ws.readyState === WebSocket.OPEN && this.permissionsFor(scope, event.path).read) {
+        ws.send(JSON.stringify({ type: 'event', event }));
+      }
+    }, options);
+
+    try {
+      await watcher.start();
+    } catch (error) {
+      watcher.close();
+      throw error;
+    }
+    connection.watchers.set(watchId, watcher);
+
+    return { watchId, path: resolvedPath };
+  }
+
+  /**
+   * Cancel a directory subscription
+   */
+  private unwatchDirectory(ws: WebSocket, watchId: number): { watchId: number } {
+    const watchers = this.connections.get(ws)?.watchers;
+    const watcher = watchers?.get(watchId);
+    if (!watcher) {
+      throw new Error(`Unknown watch: ${watchId}`);
+    }
+
+    watcher.close();
+    watchers!.delete(watchId);
+    return { watchId };
+  }
+
+  /**
+   * Chunk size of a streamed download: the requested size (a positive
+   * integer) or the default, at most maxFileSize
+   */
+  private chunkSizeFor(scope: Scope, requested: number | undefined): number {
+    if (requested !== undefined && (!Number.isSafeInteger(requested) || requested <= 0)) {
+      throw new Error(`Invalid chunk size: ${requested}`);
+    }
+    return Math.min(requested ?? DEFAULT_STREAM_CHUNK_SIZE, scope.maxFileSize);
+  }
+
+  /**
+   * Stream a file (or an inclusive byte range of it) as sequenced chunk messages.
+   * Not limited by maxFileSize; each chunk is.
+   */
+  private async streamDownload(
+    ws: WebSocket,
+    requestId: number,
+    filePath: string,
+    options: { start?: number; end?: number; chunkSize?: number; binary?: boolean } = {},
+    session: XFilesSession | null = null,
+    control: StreamControl = {}
+  ): Promise<{ path: string; size: number; start: number; end: number; chunks: number }> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, filePath, 'read');
+    const stats = await this.provider.stat(resolvedPath);
+
+    if (!stats.isFile) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+
+    const start = options.start ?? 0;
+    const end = options.end ?? stats.size - 1;
+
+    if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || start < 0 || end >= stats.size || start > end + 1) {
+      throw new Error(`Invalid range: ${start}-${end} (size: ${stats.size})`);
+    }
+
+    const chunkSize = this.chunkSizeFor(scope, options.chunkSize);
+    const total = end - start + 1;
+    let index = 0;
+    let offset = start;
+
+    if (total > 0) {
+      const stream = this.provider.createReadStream(resolvedPath, { start, end, chunkSize });
+
+      for await (const data of stream) {
+        await this.beforeChunk(ws, control, index);
+        this.send(ws, {
+          type: 'chunk',
+          requestId,
+          chunk: { index, offset, total, content: options.binary ? data : data.toString('base64') },
+        });
+        offset += data.length;
+        index++;
+      }
+    }
+
+    return { path: resolvedPath, size: stats.size, start, end, chunks: index };
+  }
+
+  /**
+   * Stream a zip archive of files and directories as sequenced chunk messages.
+   * Each path is stored under its own name, directories with everything
+   * readable below them. Not limited by maxFileSize; each chunk is.
+   */
+  private async streamZip(
+    ws: WebSocket,
+    requestId: number,
+    paths: string[],
+    options: { chunkSize?: number; binary?: boolean } = {},
+    session: XFilesSession | null = null,
+    control: StreamControl = {}
+  ): Promise<{ files: number; size: number; chunks: number }> {
+    const scope = this.scopeFor(session);
+    if (!Array.isArray(paths) || paths.length === 0) {
+      throw new Error('No paths to zip');
+    }
+
+    // Check every path before anything is sent
+    const resolvedPaths: string[] = [];
+    for (const itemPath of paths) {
+      resolvedPaths.push(await this.validatePath(scope, itemPath, 'read'));
+    }
+
+    const chunkSize = this.chunkSizeFor(scope, options.chunkSize);
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    let index = 0;
+    let offset = 0;
+
+    // Re-slice the archive into chunks of chunkSize (the last one may be shorter)
+    const flush = async (final: boolean) => {
+      let data = Buffer.concat(pending);
+      while (data.length >= chunkSize || (final && data.length > 0)) {
+        const content = data.subarray(0, chunkSize);
+        data = data.subarray(content.length);
+        await this.beforeChunk(ws, control, index);
+        this.send(ws, {
+          type: 'chunk',
+          requestId,
+          chunk: { index, offset, total: 0, content: options.binary ? content : content.toString('base64') },
+        });
+        offset += content.length;
+        index++;
+      }
+      pending = [data];
+      pendingSize = data.length;
+    };
+
+    const zip = new ZipWriter(async (data) => {
+      pending.push(data);
+      pendingSize += data.length;
+      if (pendingSize >= chunkSize) await flush(false);
+    });
+
+    const names = new Set<string>();
+    let files = 0;
+
+    for (const resolvedPath of resolvedPaths) {
+      throwIfCancelled(control);
+      const name = this.uniqueName(path.basename(resolvedPath) || 'archive', names);
+      const stats = await this.provider.stat(resolvedPath);
+
+      if (!stats.isDirectory) {
+        await zip.addFile(name, stats.mtime, stats.size, this.provider.createReadStream(resolvedPath));
+        files++;
+        continue;
+      }
+
+      await zip.addDirectory(name, stats.mtime);
+      for await (const { path: entryPath, entry } of this.walkTree(scope, resolvedPath, Infinity)) {
+        throwIfCancelled(control);
+        // Links must stay inside the roots; linked directories are not followed
+        if (entry.isSymbolicLink && !(await this.isRealPathAllowed(scope, entryPath))) continue;
+        const entryStats = await this.provider.stat(entryPath).catch(() => null);
+        if (!entryStats || (entry.isSymbolicLink && entryStats.isDirectory)) continue;
+
+        const entryName = `${name}/${path.relative(resolvedPath, entryPath).split(path.sep).join('/')}`;
+        if (entryStats.isDirectory) {
+          await zip.addDirectory(entryName, entryStats.mtime);
+        } else if (entryStats.isFile) {
+          await zip.addFile(entryName, entryStats.mtime, entryStats.size, this.provider.createReadStream(entryPath));
+          files++;
+        }
+      }
+    }
+
+    await zip.finish();
+    await flush(true);
+
+    return { files, size: zip.size, chunks: index };
+  }
+
+  /**
+   * Pick a name not used yet: "name", "name (1)", "name (2)", ...
+   */
+  private uniqueName(name: string, used: Set<string>): string {
+    const ext = path.extname(name);
+    const base = name.slice(0, name.length - ext.length);
+    let candidate = name;
+
+    for (let i = 1; used.has(candidate); i++) {
+      candidate = `${base} (${i})${ext}`;
+    }
+    used.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Measure the total size of a directory tree, reporting running totals
+   * as progress. Every directory measured along the way is cached until
+   * something below it changes, so measuring a subdirectory later is
+   * instant. Links are counted but not followed; entries the access rules
+   * hide are left out.
+   */
+  async measureDiskUsage(
+    dirPath: string,
+    session: XFilesSession | null = null,
+    control: OperationControl<DiskUsage> = {}
+  ): Promise<DiskUsage> {
+    const scope = this.scopeFor(session);
+    const resolvedPath = await this.validatePath(scope, dirPath, 'read');
+
+    if (!(await this.provider.stat(resolvedPath)).isDirectory) {
+      throw new Error(`Not a directory: ${dirPath}`);
+    }
+
+    const totals: DiskUsage = { path: resolvedPath, bytes: 0, files: 0, directories: 0 };
+    let reported = Date.now();
+
+    const progress = () => {
+      throwIfCancelled(control);
+      if (control.onProgress && Date.now() - reported >= PROGRESS_INTERVAL) {
+        control.onProgress({ ...totals });
+        reported = Date.now();
+      }
+    };
+
+    return this.measureTree(scope, resolvedPath, totals, progress);
   }
 
-  private async searchDirectoryRecursive(
+  /**
+   * Measure one directory (from the cache if possible), adding what is found to the running totals
+   */
+  private async measureTree(
+    scope: Scope,
     dirPath: string,
-    pattern: RegExp,
-    results: FileEntry[],
-    recursive: boolean,
-    maxResults: number
-  ): Promise<void> {
-    if (results.length >= maxResults) return;
+    totals: DiskUsage,
+    progress: () => void
+  ): Promise<DiskUsage> {
+    // Access rules hide entries per session, so their totals can't be shared
+    const cacheable = scope.rules.length === 0;
+    const cached = cacheable ? this.diskUsage.get(dirPath) : undefined;
+    if (cached) {
+      totals.bytes += cached.bytes;
+      totals.files += cached.files;
+      totals.directories += cached.directories;
+      return cached;
+    }
+
+    progress();
+
+    // Subdirectories that can't be listed count as empty (and aren't cached)
+    let listed = true;
+    const entries = await this.provider.list(dirPath).catch((error) => {
+      if (dirPath === totals.path) throw error;
+      listed = false;
+      return [];
+    });
+
+    const usage: DiskUsage = { path: dirPath, bytes: 0, files: 0, directories: 0 };
+    const visible = entries
+      .map((entry) => ({ entry, entryPath: path.join(dirPath, entry.name) }))
+      .filter(({ entryPath }) => this.permissionsFor(scope, entryPath).read);
+    const directories = visible.filter(({ entry }) => entry.isDirectory && !entry.isSymbolicLink);
+    const files = visible.filter(({ entry }) => !entry.isDirectory || entry.isSymbolicLink);
+
+    const sizes = await mapConcurrent(files, STAT_CONCURRENCY, async ({ entryPath }) => {
+      const stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, entryPath).catch(() => null);
+      return stats?.size ?? 0;
+    });
+    for (const size of sizes) {
+      usage.bytes += size;
+      usage.files++;
+      totals.bytes += size;
+      totals.files++;
+    }
+
+    for (const { entryPath } of directories) {
+      const below = await this.measureTree(scope, entryPath, totals, progress);
+      usage.bytes += below.bytes;
+      usage.files += below.files;
+      usage.directories += below.directories + 1;
+      totals.directories++;
+    }
+
+    if (listed && cacheable) this.diskUsage.set(usage);
+    return usage;
+  }
+
+  /**
+   * Unpack a zip, tar or tar.gz archive into a directory, pushing progress
+   * messages before the final result. Every entry is validated like any
+   * other write and must stay inside the destination; links and special
+   * files are skipped. Extraction stops at the first entry that fails, or
+   * when it is cancelled, keeping the entries written before it.
+   */
+  private async extractArchive(
+    ws: WebSocket,
+    archivePath: string,
+    destination: string,
+    options: ExtractOptions & LockContext = {},
+    session: XFilesSession | null = null,
+    control: OperationControl<ExtractProgress> = {}
+  ): Promise<ExtractResult> {
+    const scope = this.scopeFor(session);
+    const resolvedArchive = await this.validatePath(scope, archivePath, 'read');
+    const resolvedDest = await this.validatePath(scope, destination, 'write');
+    const format = options.format ?? archiveFormat(resolvedArchive);
+
+    if (!format) {
+      throw new Error(`Unsupported archive format: ${archivePath}`);
+    }
+    if (!(await this.provider.stat(resolvedArchive)).isFile) {
+      throw new Error(`Not a file: ${archivePath}`);
+    }
+
+    const archive = await openArchive(this.provider, resolvedArchive, format);
+    const { totalEntries, totalBytes } = archive;
+
+    // Zip archives declare their totals, so oversized ones fail before anything is written
+    this.checkExtractLimits(scope, totalEntries ?? 0, totalBytes ?? 0);
+
+    const result: ExtractResult = { path: resolvedDest, files: 0, directories: 0, bytes: 0, skipped: 0 };
+    const directories = new Set<string>();
+    let entries = 0;
+    let reported = 0;
+
+    await this.ensureDirectory(scope, resolvedDest, directories);
 
     try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      for await (const { entry, content } of archive.items()) {
+        throwIfCancelled(control);
+        if (entry.type !== 'file' && entry.type !== 'directory') {
+          result.skipped++;
+          continue;
+        }
+        // The archive's own root ("./")
+        if (entry.path === '') continue;
 
-      for (const entry of entries) {
-        if (results.length >= maxResults) break;
+        const target = path.resolve(resolvedDest, ...entry.path.split('/'));
+        if (!isWithin(target, resolvedDest)) {
+          throw new Error(`Archive entry outside the destination: ${entry.path}`);
+        }
+        await this.validatePath(scope, target, 'write');
 
-        const entryPath = path.join(dirPath, entry.name);
+        entries++;
+        this.checkExtractLimits(scope, entries, result.bytes + entry.size);
 
-        if (pattern.test(entry.name)) {
-          try {
-            const stats = await fs.stat(entryPath);
-            results.push({
-              name: entry.name,
-              path: entryPath,
-              isDirectory: entry.isDirectory(),
-              isFile: entry.isFile(),
-              size: stats.size,
-              modified: stats.mtime.toISOString(),
-              created: stats.birthtime.toISOString(),
-            });
-          } catch {
-            // Skip inaccessible
-          }
+        await this.waitForDrain(ws);
+        if (Date.now() - reported >= PROGRESS_INTERVAL) {
+          const progress: ExtractProgress = { entries: entries - 1, bytes: result.bytes, totalEntries, totalBytes, entry: entry.path };
+          control.onProgress?.(progress);
+          reported = Date.now();
         }
 
-        if (recursive && entry.isDirectory()) {
-          await this.searchDirectoryRecursive(entryPath, pattern, results, recursive, maxResults);
+        if (entry.type === 'directory') {
+          await this.ensureDirectory(scope, target, directories);
+          result.directories++;
+          continue;
         }
+
+        await this.ensureDirectory(scope, path.dirname(target), directories);
+        await this.serialize(target, async () => {
+          if (!options.overwrite && (await this.pathExists(target))) {
+            throw new OperationError(`Target exists: ${target}`, 'TARGET_EXISTS', { path: target });
+          }
+          await this.checkLock(target, options.lockOwner);
+
+          const delta = await this.usageDelta(scope, target, () => this.fileDelta(target, entry.size));
+          if (delta) await this.enforceQuota(scope, target, delta);
+
+          // Write next to the target first, so a failed entry never leaves a partial file
+          const tempPath = path.join(path.dirname(target), `.${path.basename(target)}.${randomUUID()}.extract`);
+          const writer = await this.provider.createWriteStream(tempPath);
+          try {
+            try {
+              for await (const data of content()) {
+                throwIfCancelled(control);
+                await writer.write(data);
+              }
+            } finally {
+              await writer.close();
+            }
+            await this.replaceWithTemp(tempPath, target);
+          } catch (error) {
+            await this.provider.rm(tempPath, { force: true });
+            throw error;
+          }
+          if (delta) this.usage.add(target, delta);
+        });
+
+        result.files++;
+        result.bytes += entry.size;
+      }
+    } finally {
+      this.diskUsage.invalidate(resolvedDest);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check the size and entry count of an extraction against the limits
+   */
+  private checkExtractLimits(scope: Scope, entries: number, bytes: number): void {
+    if (entries > scope.maxExtractEntries) {
+      throw new Error(`Too many archive entries: ${entries} (max: ${scope.maxExtractEntries})`);
+    }
+    if (bytes > scope.maxExtractSize) {
+      throw new Error(`Archive too large: ${bytes} bytes (max: ${scope.maxExtractSize})`);
+    }
+  }
+
+  /**
+   * Create a directory and its missing parents, counting them towards the quota
+   * (directories already handled are remembered in `known`)
+   */
+  private async ensureDirectory(scope: Scope, dirPath: string, known: Set<string>): Promise<void> {
+    if (known.has(dirPath)) return;
+
+    const delta = await this.usageDelta(scope, dirPath, () => this.directoryDelta(dirPath));
+    if (delta) await this.enforceQuota(scope, dirPath, delta);
+    await this.provider.mkdir(dirPath, { recursive: true });
+    if (delta) this.usage.add(dirPath, delta);
+
+    known.add(dirPath);
+  }
+
+  /**
+   * Wait until the socket's send buffer is below the high-water mark
+   */
+  private async waitForDrain(ws: WebSocket): Promise<void> {
+    while (ws.readyState === WebSocket.OPEN && ws.bufferedAmount > STREAM_HIGH_WATER_MARK) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    if (ws.readyState !== WebSocket.OPEN) {
+      throw new Error('Connection closed');
+    }
+  }
+
+  /**
+   * Check if buffer contains binary data
+   */
+  private isBinaryFile(buffer: Buffer): boolean {
+    // Simple check: if file contains null bytes or high percentage of non-printable chars
+    const chunk = buffer.subarray(0, Math.min(8192, buffer.length));
+    let nonPrintable = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      // Null byte indicates binary
+      if (byte === 0) {
+        return true;
+      }
+      // Count non-printable ASCII characters (excluding common whitespace)
+      if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 13) {
+        nonPrintable++;
       }
+    }
+
+    // If more than 10% non-printable, consider binary
+    return (nonPrintable / chunk.length) > 0.1;
+  }
+
+  /**
+   * Walk the readable entries below a directory, depth first, down to
+   * maxDepth levels (directories that can't be listed are skipped, and
+   * so is everything the skip callback rejects)
+   */
+  private async *walkTree(
+    scope: Scope,
+    dirPath: string,
+    maxDepth: number,
+    skip?: (entryPath: string) => boolean
+  ): AsyncGenerator<{ path: string; entry: ProviderEntry }> {
+    let entries: ProviderEntry[];
+    try {
+      entries = await this.provider.list(dirPath);
     } catch {
-      // Skip inaccessible directories
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      if (!this.permissionsFor(scope, entryPath).read || skip?.(entryPath)) continue;
+
+      yield { path: entryPath, entry };
+
+      if (maxDepth > 1 && entry.isDirectory) {
+        yield* this.walkTree(scope, entryPath, maxDepth - 1, skip);
+      }
     }
   }
 
@@ -642,12 +3416,16 @@ export class XFilesHandler {
   }
 
   /**
-   * Close all connections
+   * Close all connections and discard unfinished uploads
    */
   closeAll(): void {
     for (const ws of this.connections.keys()) {
+      this.removeConnection(ws);
       ws.close(1000, 'Server closing');
     }
-    this.connections.clear();
+
+    for (const upload of this.uploads.values()) {
+      this.discardUpload(upload).catch(() => {});
+    }
   }
 }
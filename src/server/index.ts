@@ -5,5 +5,25 @@
  */
 
 export { XFilesHandler } from './handler.js';
-export type { XFilesConfig } from './handler.js';
-export type { FileEntry, ServerConfig, MessageType, ClientMessage, ServerMessage } from '../shared/types.js';
+export type { XFilesConfig, XFilesSession, AccessRule } from './handler.js';
+export { LocalFileSystemProvider } from './local-provider.js';
+export { MemoryFileSystemProvider } from './memory-provider.js';
+export type { MemoryTree, MemoryProviderOptions } from './memory-provider.js';
+export { FileAuditSink, MemoryAuditSink } from './audit.js';
+export type { AuditEntry, AuditSink, AuditQuery, FileAuditSinkOptions } from './audit.js';
+export type { RateLimits } from './rate-limit.js';
+export type { Quota } from './quota.js';
+export type { TrashOptions } from './trash.js';
+export type { BackupOptions } from './backup.js';
+export { OperationError } from './errors.js';
+export type { OperationControl } from './progress.js';
+export type { LockContext } from './locks.js';
+export type {
+  FileSystemProvider,
+  FileWriter,
+  ProviderEntry,
+  ProviderStats,
+  ProviderWatcher,
+  ReadStreamOptions,
+} from './provider.js';
+export type { FileEntry, FileLock, DirectoryPage, ListOptions, ListSortBy, Precondition, ServerConfig, ErrorCode, AccessPermission, PathPermissions, QuotaInfo, SearchOptions, ContentMatch, ContentSearchOptions, LineMatch, TrashItem, RestoreConflict, ArchiveFormat, ExtractOptions, ExtractProgress, ExtractResult, DiskUsage, OperationProgress, HashAlgorithm, HashResult, MessageType, ClientMessage, ServerMessage, DownloadChunk, UploadSession, WatchEvent, WatchEventType, WatchOptions } from '../shared/types.js';
@@ -0,0 +1,122 @@
+/**
+ * x-files.js Directory Listing Order
+ *
+ * Sorting and cursors for paged `list` requests. A cursor carries the sort
+ * order and the sort key of the last entry sent, so the next page starts
+ * right after that entry even if entries were added or removed meanwhile.
+ */
+
+import * as path from 'path';
+import type { FileEntry, ListSortBy } from '../shared/types.js';
+
+export const LIST_SORT_FIELDS: ListSortBy[] = ['name', 'size', 'modified', 'type'];
+
+/**
+ * Sort order of a listing
+ */
+export interface ListOrder {
+  sortBy: ListSortBy;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * What an entry is sorted by (size and modified only matter for those sorts)
+ */
+export interface SortKey {
+  name: string;
+  isDirectory: boolean;
+  size?: number;
+  /** Last modified time (ms) */
+  modified?: number;
+}
+
+const collator = new Intl.Collator();
+
+export function sortKeyOf(entry: FileEntry): SortKey {
+  return {
+    name: entry.name,
+    isDirectory: entry.isDirectory,
+    size: entry.size,
+    modified: Date.parse(entry.modified),
+  };
+}
+
+/**
+ * Compare two entries: directories first, then by the sort field, then by name
+ */
+export function compareKeys(a: SortKey, b: SortKey, order: ListOrder): number {
+  if (a.isDirectory !== b.isDirectory) {
+    return a.isDirectory ? -1 : 1;
+  }
+
+  let result = 0;
+  switch (order.sortBy) {
+    case 'size':
+      result = (a.size ?? 0) - (b.size ?? 0);
+      break;
+    case 'modified':
+      result = (a.modified ?? 0) - (b.modified ?? 0);
+      break;
+    case 'type':
+      result = collator.compare(extension(a.name), extension(b.name));
+      break;
+  }
+  result ||= collator.compare(a.name, b.name);
+  // Names the collator considers equal still need a fixed order for cursors
+  result ||= a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+
+  return order.direction === 'desc' ? -result : result;
+}
+
+/**
+ * The first `count` items in sort order, without sorting all of them when
+ * only a few are needed (a page of a huge directory)
+ */
+export function firstSorted<T>(items: T[], count: number, compare: (a: T, b: T) => number): T[] {
+  if (count >= items.length / 4) {
+    return [...items].sort(compare).slice(0, count);
+  }
+
+  const first: T[] = [];
+  for (const item of items) {
+    if (first.length === count && compare(item, first[count - 1]) >= 0) continue;
+
+    let low = 0;
+    let high = first.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (compare(item, first[middle]) < 0) high = middle;
+      else low = middle + 1;
+    }
+    first.splice(low, 0, item);
+    if (first.length > count) first.pop();
+  }
+  return first;
+}
+
+function extension(name: string): string {
+  return path.extname(name).slice(1).toLowerCase();
+}
+
+export function encodeCursor(order: ListOrder, last: SortKey): string {
+  return Buffer.from(JSON.stringify({ ...order, last })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): ListOrder & { last: SortKey } {
+  let value: any;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (
+    !LIST_SORT_FIELDS.includes(value?.sortBy) ||
+    (value.direction !== 'asc' && value.direction !== 'desc') ||
+    typeof value.last?.name !== 'string' ||
+    typeof value.last.isDirectory !== 'boolean'
+  ) {
+    throw new Error('Invalid cursor');
+  }
+  return value;
+}
@@ -0,0 +1,245 @@
+/**
+ * x-files.js Local Disk Provider
+ *
+ * Default FileSystemProvider, backed by the host file system.
+ */
+
+import { createReadStream, watch, type Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { WatchOptions } from '../shared/types.js';
+import type {
+  FileSystemProvider,
+  FileWriter,
+  ProviderEntry,
+  ProviderStats,
+  ProviderWatcher,
+  ReadStreamOptions,
+} from './provider.js';
+
+/**
+ * Symbolic links followed before a write gives up (as the kernel does)
+ */
+const MAX_LINK_DEPTH = 40;
+
+function toProviderStats(stats: Stats): ProviderStats {
+  return {
+    isFile: stats.isFile(),
+    isDirectory: stats.isDirectory(),
+    isSymbolicLink: stats.isSymbolicLink(),
+    size: stats.size,
+    mtime: stats.mtime,
+    birthtime: stats.birthtime,
+    ino: stats.ino,
+  };
+}
+
+/**
+ * Follow symbolic links at the end of a path, even dangling ones, to the
+ * file a write should replace or create
+ */
+async function linkTarget(filePath: string): Promise<string> {
+  let target = filePath;
+  for (let depth = 0; depth < MAX_LINK_DEPTH; depth++) {
+    const stats = await fs.lstat(target).catch((error) => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (!stats?.isSymbolicLink()) return target;
+    target = path.resolve(path.dirname(target), await fs.readlink(target));
+  }
+  throw Object.assign(new Error(`ELOOP: too many symbolic links encountered, open '${filePath}'`), { code: 'ELOOP' });
+}
+
+/**
+ * Hidden temp file next to a file, for replacing it atomically
+ */
+function tempPathFor(filePath: string): string {
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomUUID()}.tmp`);
+}
+
+/**
+ * Flush a directory so a rename in it survives a crash (not supported on
+ * every platform, where the rename is still atomic but may not be durable)
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(dirPath, 'r');
+    await handle.sync();
+  } catch {
+    // EISDIR/EPERM on Windows
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Storage provider for the local disk
+ */
+export class LocalFileSystemProvider implements FileSystemProvider {
+  async list(dirPath: string): Promise<ProviderEntry[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.map((entry) => ({
+      name: entry.name,
+      isFile: entry.isFile(),
+      isDirectory: entry.isDirectory(),
+      isSymbolicLink: entry.isSymbolicLink(),
+    }));
+  }
+
+  async stat(itemPath: string): Promise<ProviderStats> {
+    return toProviderStats(await fs.stat(itemPath));
+  }
+
+  async lstat(itemPath: string): Promise<ProviderStats> {
+    return toProviderStats(await fs.lstat(itemPath));
+  }
+
+  realpath(itemPath: string): Promise<string> {
+    return fs.realpath(itemPath);
+  }
+
+  readlink(linkPath: string): Promise<string> {
+    return fs.readlink(linkPath);
+  }
+
+  read(filePath: string): Promise<Buffer> {
+    return fs.readFile(filePath);
+  }
+
+  /**
+   * Write to a temp file next to the target, flush it to disk and rename it
+   * over the target, so a crash leaves either the old or the new content.
+   * The new file keeps the mode of the one it replaces; writing through a
+   * symbolic link replaces the file it points to.
+   */
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const target = await linkTarget(filePath);
+    const tempPath = tempPathFor(target);
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      try {
+        await handle.writeFile(data);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await this.replace(tempPath, target);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a flushed temp file over a file like write does: through a
+   * final symbolic link, keeping the mode of the replaced file, and with
+   * the directory flushed so the rename survives a crash
+   */
+  async replace(tempPath: string, filePath: string): Promise<void> {
+    const target = await linkTarget(filePath);
+    const existing = await fs.stat(target).catch((error) => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (existing) await fs.chmod(tempPath, existing.mode & 0o7777);
+
+    try {
+      await fs.rename(tempPath, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+
+      // The link points to another file system: copy next to the target first
+      const nearTarget = tempPathFor(target);
+      try {
+        await fs.copyFile(tempPath, nearTarget, fs.constants.COPYFILE_EXCL);
+        const handle = await fs.open(nearTarget, 'r+');
+        try {
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+        await fs.rename(nearTarget, target);
+      } catch (copyError) {
+        await fs.rm(nearTarget, { force: true });
+        throw copyError;
+      }
+      await fs.rm(tempPath, { force: true });
+    }
+    await syncDirectory(path.dirname(target));
+  }
+
+  async mkdir(dirPath: string, options: { recursive?: boolean } = {}): Promise<void> {
+    await fs.mkdir(dirPath, { recursive: options.recursive ?? false });
+  }
+
+  async rm(itemPath: string, options: { recursive?: boolean; force?: boolean } = {}): Promise<void> {
+    const { recursive = false, force = false } = options;
+    const stats = await fs.lstat(itemPath).catch((error) => {
+      if (force && error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (!stats) return;
+
+    if (stats.isDirectory()) {
+      await fs.rm(itemPath, { recursive, force });
+    } else {
+      await fs.unlink(itemPath);
+    }
+  }
+
+  rename(oldPath: string, newPath: string): Promise<void> {
+    return fs.rename(oldPath, newPath);
+  }
+
+  copy(source: string, destination: string): Promise<void> {
+    return fs.copyFile(source, destination);
+  }
+
+  createReadStream(filePath: string, options: ReadStreamOptions = {}): AsyncIterable<Buffer> {
+    return createReadStream(filePath, {
+      start: options.start,
+      end: options.end,
+      highWaterMark: options.chunkSize,
+    });
+  }
+
+  async createWriteStream(filePath: string): Promise<FileWriter> {
+    const handle = await fs.open(filePath, 'wx');
+    return {
+      write: async (data) => {
+        let written = 0;
+        while (written < data.length) {
+          const { bytesWritten } = await handle.write(data, written);
+          written += bytesWritten;
+        }
+      },
+      close: async () => {
+        try {
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+      },
+    };
+  }
+
+  watch(
+    dirPath: string,
+    options: WatchOptions,
+    onChange: (filename: string) => void,
+    onError: (error: Error) => void
+  ): ProviderWatcher {
+    const watcher = watch(dirPath, { persistent: false, recursive: options.recursive ?? false }, (eventType, filename) => {
+      if (filename) onChange(filename.toString());
+      // Removing or moving the watched directory itself only shows up as a rename, after which it goes quiet
+      if (eventType === 'rename') {
+        fs.stat(dirPath).catch(onError);
+      }
+    });
+    watcher.on('error', onError);
+    return watcher;
+  }
+}
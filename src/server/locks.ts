@@ -0,0 +1,127 @@
+/**
+ * x-files.js Edit Locks
+ *
+ * Advisory, exclusive leases on paths. A client takes a lease before
+ * editing a file and renews it before its TTL runs out; while it holds the
+ * lease, writes, renames and deletes of the path by anyone else fail with
+ * code 'LOCKED'. Reads are never blocked. Leases end when they are
+ * released, when they expire, or when the connection holding them closes.
+ */
+
+import { randomUUID } from 'crypto';
+import type { FileLock } from '../shared/types.js';
+import { OperationError } from './errors.js';
+import { isWithin } from './paths.js';
+
+/**
+ * Who makes a change, so their own leases don't block it
+ */
+export interface LockContext {
+  /** Owner passed to lockPath (the connection, over WebSocket) */
+  lockOwner?: object;
+}
+
+interface Lease {
+  lock: FileLock;
+  owner: object;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Edit leases by path. Callers key leases on real paths (symbolic links
+ * resolved), so every alias of a file shares its lease.
+ */
+export class LockTable {
+  private leases = new Map<string, Lease>();
+
+  /**
+   * @param onChange Called when a lease begins or ends (not when it is renewed)
+   */
+  constructor(private onChange: (type: 'lock' | 'unlock', lock: FileLock) => void) {}
+
+  /** Whether any lease is held (callers can skip resolving paths if not) */
+  get empty(): boolean {
+    return this.leases.size === 0;
+  }
+
+  /**
+   * Take a lease on a path, or renew the owner's lease on it
+   *
+   * @param shownPath The path as the owner named it, reported in the lock
+   */
+  acquire(itemPath: string, owner: object, holder: string | undefined, ttl: number, shownPath = itemPath): FileLock {
+    const lease = this.leases.get(itemPath);
+    if (lease && lease.owner !== owner) {
+      throw lockedError(lease.lock);
+    }
+
+    const lock: FileLock = {
+      id: lease?.lock.id ?? randomUUID(),
+      path: lease?.lock.path ?? shownPath,
+      ...(holder !== undefined ? { holder } : {}),
+      expiresAt: new Date(Date.now() + ttl).toISOString(),
+    };
+    if (lease) clearTimeout(lease.timer);
+
+    const timer = setTimeout(() => this.end(itemPath), ttl);
+    timer.unref?.();
+    this.leases.set(itemPath, { lock, owner, timer });
+
+    if (!lease) this.onChange('lock', lock);
+    return lock;
+  }
+
+  /**
+   * End the owner's lease on a path (false if they hold none)
+   */
+  release(itemPath: string, owner: object): boolean {
+    if (this.leases.get(itemPath)?.owner !== owner) return false;
+    this.end(itemPath);
+    return true;
+  }
+
+  /**
+   * End every lease of an owner
+   */
+  releaseAll(owner: object): void {
+    for (const [itemPath, lease] of this.leases) {
+      if (lease.owner === owner) this.end(itemPath);
+    }
+  }
+
+  /**
+   * Current lease on a path
+   */
+  get(itemPath: string): FileLock | undefined {
+    return this.leases.get(itemPath)?.lock;
+  }
+
+  /**
+   * Fail with code 'LOCKED' if anyone but the owner holds a lease on a path,
+   * or (for a tree) on anything below it
+   */
+  check(itemPath: string, owner: object | undefined, tree = false): void {
+    if (this.empty) return;
+
+    for (const [lockedPath, lease] of this.leases) {
+      if (lease.owner === owner) continue;
+      if (lockedPath === itemPath || (tree && isWithin(lockedPath, itemPath))) {
+        throw lockedError(lease.lock);
+      }
+    }
+  }
+
+  private end(itemPath: string): void {
+    const lease = this.leases.get(itemPath);
+    if (!lease) return;
+
+    clearTimeout(lease.timer);
+    this.leases.delete(itemPath);
+    this.onChange('unlock', lease.lock);
+  }
+}
+
+function lockedError(lock: FileLock): OperationError {
+  const holder = lock.holder ? ` by ${lock.holder}` : '';
+  return new OperationError(`Locked${holder}: ${lock.path}`, 'LOCKED', { path: lock.path, lock });
+}
@@ -0,0 +1,431 @@
+/**
+ * x-files.js In-Memory Provider
+ *
+ * FileSystemProvider that keeps the whole tree in memory. Useful for tests,
+ * playgrounds and demos where the host disk must not be touched.
+ *
+ * @example
+ * ```typescript
+ * import { XFilesHandler, MemoryFileSystemProvider } from 'x-files.js';
+ *
+ * const handler = new XFilesHandler({
+ *   allowedPaths: ['/demo'],
+ *   allowWrite: true,
+ *   provider: new MemoryFileSystemProvider({
+ *     '/demo': {
+ *       'readme.txt': 'Hello from memory',
+ *       'logo.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+ *       'subdirectory': { 'nested-file.txt': 'Nested' },
+ *     },
+ *   }),
+ * });
+ * ```
+ */
+
+import * as path from 'path';
+import type { WatchOptions } from '../shared/types.js';
+import { isWithin } from './paths.js';
+import type {
+  FileSystemProvider,
+  FileWriter,
+  ProviderEntry,
+  ProviderStats,
+  ProviderWatcher,
+  ReadStreamOptions,
+} from './provider.js';
+
+/**
+ * Seed tree: strings and byte arrays are files (strings as UTF-8),
+ * objects are directories. Top-level keys are absolute paths.
+ */
+export interface MemoryTree {
+  [name: string]: string | Uint8Array | MemoryTree;
+}
+
+/**
+ * Options for MemoryFileSystemProvider
+ */
+export interface MemoryProviderOptions {
+  /**
+   * Clock used for timestamps (handy for deterministic tests)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+interface MemoryNode {
+  ino: number;
+  birthtime: Date;
+  mtime: Date;
+  /** File content; undefined for directories */
+  content?: Buffer;
+  /** Directory entries; undefined for files */
+  children?: Map<string, MemoryNode>;
+}
+
+interface MemoryListener {
+  dirPath: string;
+  recursive: boolean;
+  onChange: (filename: string) => void;
+  onError: (error: Error) => void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: 'no such file or directory',
+  EEXIST: 'file already exists',
+  ENOTDIR: 'not a directory',
+  EISDIR: 'illegal operation on a directory',
+  ENOTEMPTY: 'directory not empty',
+  EINVAL: 'invalid argument',
+  EBUSY: 'resource busy or locked',
+};
+
+/**
+ * Create an error shaped like the ones thrown by `fs`
+ */
+function fsError(code: string, syscall: string, itemPath: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${ERROR_MESSAGES[code]}, ${syscall} '${itemPath}'`);
+  error.code = code;
+  error.syscall = syscall;
+  error.path = itemPath;
+  return error;
+}
+
+/**
+ * Storage provider backed by an in-memory tree
+ */
+export class MemoryFileSystemProvider implements FileSystemProvider {
+  private roots = new Map<string, MemoryNode>();
+  private listeners = new Set<MemoryListener>();
+  private nextIno = 1;
+  private now: () => Date;
+
+  constructor(tree: MemoryTree = {}, options: MemoryProviderOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+
+    for (const [rootPath, value] of Object.entries(tree)) {
+      this.seed(path.resolve(rootPath), value);
+    }
+  }
+
+  async list(dirPath: string): Promise<ProviderEntry[]> {
+    const node = this.lookup(dirPath, 'scandir');
+    if (!node.children) {
+      throw fsError('ENOTDIR', 'scandir', dirPath);
+    }
+
+    return [...node.children].map(([name, child]) => ({
+      name,
+      isFile: !child.children,
+      isDirectory: !!child.children,
+    }));
+  }
+
+  async stat(itemPath: string): Promise<ProviderStats> {
+    const node = this.lookup(itemPath, 'stat');
+    return {
+      isFile: !node.children,
+      isDirectory: !!node.children,
+      size: node.content?.length ?? 0,
+      mtime: node.mtime,
+      birthtime: node.birthtime,
+      ino: node.ino,
+    };
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const node = this.lookup(filePath, 'open');
+    if (!node.content) {
+      throw fsError('EISDIR', 'read', filePath);
+    }
+    return Buffer.from(node.content);
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const existing = this.find(filePath);
+    if (existing?.children) {
+      throw fsError('EISDIR', 'open', filePath);
+    }
+
+    if (existing) {
+      existing.content = Buffer.from(data);
+      existing.mtime = this.now();
+    } else {
+      this.attach(filePath, this.createNode(Buffer.from(data)), 'open');
+    }
+    this.notify(filePath);
+  }
+
+  async mkdir(dirPath: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const existing = this.find(dirPath);
+
+    if (existing) {
+      if (options.recursive && existing.children) return;
+      throw fsError('EEXIST', 'mkdir', dirPath);
+    }
+
+    if (options.recursive) {
+      const parent = path.dirname(path.resolve(dirPath));
+      if (parent !== path.resolve(dirPath)) {
+        await this.mkdir(parent, { recursive: true });
+      }
+    }
+
+    this.attach(dirPath, this.createNode(), 'mkdir');
+    this.notify(dirPath);
+  }
+
+  async rm(itemPath: string, options: { recursive?: boolean; force?: boolean } = {}): Promise<void> {
+    const node = this.find(itemPath);
+
+    if (!node) {
+      if (options.force) return;
+      throw fsError('ENOENT', 'rm', itemPath);
+    }
+
+    if (node.children && !options.recursive) {
+      throw fsError('EISDIR', 'rm', itemPath);
+    }
+
+    this.detach(itemPath, 'rm');
+    this.notify(itemPath);
+    this.failListenersWithin(itemPath);
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const source = this.lookup(oldPath, 'rename');
+    const from = path.resolve(oldPath);
+    const to = path.resolve(newPath);
+
+    if (from === to) return;
+
+    if (source.children && isWithin(to, from)) {
+      throw fsError('EINVAL', 'rename', oldPath);
+    }
+
+    const target = this.find(to);
+    if (target) {
+      if (source.children && !target.children) {
+        throw fsError('ENOTDIR', 'rename', newPath);
+      }
+      if (!source.children && target.children) {
+        throw fsError('EISDIR', 'rename', newPath);
+      }
+      if (target.children?.size) {
+        throw fsError('ENOTEMPTY', 'rename', newPath);
+      }
+    }
+
+    // Check the destination parent before touching anything
+    this.parentOf(to, 'rename');
+
+    this.detach(from, 'rename');
+    if (target) {
+      this.detach(to, 'rename');
+    }
+    this.attach(to, source, 'rename');
+
+    this.notify(from);
+    this.notify(to);
+    this.failListenersWithin(from);
+  }
+
+  async copy(source: string, destination: string): Promise<void> {
+    const node = this.lookup(source, 'copyfile');
+    if (!node.content) {
+      throw fsError('EISDIR', 'copyfile', source);
+    }
+
+    await this.write(destination, node.content);
+  }
+
+  async *createReadStream(filePath: string, options: ReadStreamOptions = {}): AsyncIterable<Buffer> {
+    const content = await this.read(filePath);
+    const start = options.start ?? 0;
+    const end = Math.min(options.end ?? content.length - 1, content.length - 1);
+    const chunkSize = options.chunkSize ?? 64 * 1024;
+
+    for (let offset = start; offset <= end; offset += chunkSize) {
+      yield content.subarray(offset, Math.min(offset + chunkSize, end + 1));
+    }
+  }
+
+  async createWriteStream(filePath: string): Promise<FileWriter> {
+    if (this.find(filePath)) {
+      throw fsError('EEXIST', 'open', filePath);
+    }
+
+    const node = this.createNode(Buffer.alloc(0));
+    this.attach(filePath, node, 'open');
+    this.notify(filePath);
+
+    return {
+      write: async (data) => {
+        node.content = Buffer.concat([node.content!, data]);
+        node.mtime = this.now();
+        this.notify(filePath);
+      },
+      close: async () => {},
+    };
+  }
+
+  watch(
+    dirPath: string,
+    options: WatchOptions,
+    onChange: (filename: string) => void,
+    onError: (error: Error) => void
+  ): ProviderWatcher {
+    const listener: MemoryListener = {
+      dirPath: path.resolve(dirPath),
+      recursive: options.recursive ?? false,
+      onChange,
+      onError,
+    };
+    this.listeners.add(listener);
+
+    return {
+      close: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  private seed(itemPath: string, value: string | Uint8Array | MemoryTree): void {
+    if (typeof value === 'string' || value instanceof Uint8Array) {
+      const parent = path.dirname(itemPath);
+      if (!this.find(parent)) {
+        this.mkdirSync(parent);
+      }
+      this.attach(itemPath, this.createNode(Buffer.from(value)), 'open');
+      return;
+    }
+
+    this.mkdirSync(itemPath);
+    for (const [name, child] of Object.entries(value)) {
+      this.seed(path.join(itemPath, name), child);
+    }
+  }
+
+  private mkdirSync(dirPath: string): void {
+    const existing = this.find(dirPath);
+    if (existing) {
+      if (!existing.children) {
+        throw fsError('EEXIST', 'mkdir', dirPath);
+      }
+      return;
+    }
+
+    const parent = path.dirname(dirPath);
+    if (parent !== dirPath) {
+      this.mkdirSync(parent);
+    }
+    this.attach(dirPath, this.createNode(), 'mkdir');
+  }
+
+  private createNode(content?: Buffer): MemoryNode {
+    const now = this.now();
+    return {
+      ino: this.nextIno++,
+      birthtime: now,
+      mtime: now,
+      content,
+      children: content ? undefined : new Map(),
+    };
+  }
+
+  /**
+   * Find a node, or undefined if any segment is missing
+   */
+  private find(itemPath: string): MemoryNode | undefined {
+    const resolved = path.resolve(itemPath);
+    const { root } = path.parse(resolved);
+    let node = this.roots.get(root);
+
+    for (const segment of resolved.slice(root.length).split(path.sep).filter(Boolean)) {
+      node = node?.children?.get(segment);
+    }
+
+    return node;
+  }
+
+  /**
+   * Find a node, throwing ENOENT if it does not exist
+   */
+  private lookup(itemPath: string, syscall: string): MemoryNode {
+    const node = this.find(itemPath);
+    if (!node) {
+      throw fsError('ENOENT', syscall, itemPath);
+    }
+    return node;
+  }
+
+  /**
+   * Get the directory that holds (or would hold) a path
+   */
+  private parentOf(itemPath: string, syscall: string): MemoryNode {
+    const parent = this.find(path.dirname(path.resolve(itemPath)));
+    if (!parent) {
+      throw fsError('ENOENT', syscall, itemPath);
+    }
+    if (!parent.children) {
+      throw fsError('ENOTDIR', syscall, itemPath);
+    }
+    return parent;
+  }
+
+  private attach(itemPath: string, node: MemoryNode, syscall: string): void {
+    const resolved = path.resolve(itemPath);
+    const { root } = path.parse(resolved);
+
+    if (resolved === root) {
+      if (this.roots.has(root)) {
+        throw fsError('EEXIST', syscall, itemPath);
+      }
+      this.roots.set(root, node);
+      return;
+    }
+
+    const parent = this.parentOf(resolved, syscall);
+    parent.children!.set(path.basename(resolved), node);
+    parent.mtime = this.now();
+  }
+
+  private detach(itemPath: string, syscall: string): void {
+    const resolved = path.resolve(itemPath);
+    if (resolved === path.parse(resolved).root) {
+      throw fsError('EBUSY', syscall, itemPath);
+    }
+
+    const parent = this.parentOf(resolved, syscall);
+    parent.children!.delete(path.basename(resolved));
+    parent.mtime = this.now();
+  }
+
+  /**
+   * Tell watchers of the containing directories that an entry changed
+   */
+  private notify(itemPath: string): void {
+    const resolved = path.resolve(itemPath);
+
+    for (const listener of this.listeners) {
+      const relative = path.relative(listener.dirPath, resolved);
+      if (!relative || !isWithin(resolved, listener.dirPath)) continue;
+
+      if (listener.recursive || !relative.includes(path.sep)) {
+        listener.onChange(relative);
+      }
+    }
+  }
+
+  /**
+   * Report watched directories that were removed or moved away
+   */
+  private failListenersWithin(itemPath: string): void {
+    for (const listener of this.listeners) {
+      if (isWithin(listener.dirPath, path.resolve(itemPath))) {
+        this.listeners.delete(listener);
+        listener.onError(fsError('ENOENT', 'watch', listener.dirPath));
+      }
+    }
+  }
+}
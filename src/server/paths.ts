@@ -0,0 +1,14 @@
+/**
+ * x-files.js Path Helpers
+ */
+
+import * as path from 'path';
+
+/**
+ * Check that a path is a directory or inside it on a segment boundary
+ * (so /home/user2 is not inside /home/user)
+ */
+export function isWithin(targetPath: string, dirPath: string): boolean {
+  const relative = path.relative(dirPath, targetPath);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
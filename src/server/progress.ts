@@ -0,0 +1,108 @@
+/**
+ * x-files.js Operation Progress
+ *
+ * Cancellation and progress reporting for handler calls that walk whole
+ * trees (copy, delete, search, disk usage, extraction) or stream chunks
+ * (downloads, zips, content search). Over WebSocket the signal is aborted by a
+ * `cancel` message and progress goes out as `progress` messages; direct
+ * callers of the handler pass their own.
+ */
+
+import type { OperationProgress } from '../shared/types.js';
+import { OperationError } from './errors.js';
+
+/**
+ * Minimum time between progress reports (ms)
+ */
+export const PROGRESS_INTERVAL = 100;
+
+/**
+ * Cancellation and progress callback for a long-running handler call
+ */
+export interface OperationControl<P = OperationProgress> {
+  /** Stops the operation, which then fails with code 'CANCELLED' */
+  signal?: AbortSignal;
+  /** Called with running totals, at most every PROGRESS_INTERVAL */
+  onProgress?: (progress: P) => void;
+}
+
+/**
+ * Fail with code 'CANCELLED' once the operation was cancelled
+ */
+export function throwIfCancelled(control: Pick<OperationControl, 'signal'>): void {
+  if (control.signal?.aborted) {
+    throw new OperationError('Operation cancelled', 'CANCELLED');
+  }
+}
+
+/**
+ * Counts the entries an operation processed and reports them
+ */
+export class ProgressTracker {
+  readonly progress: OperationProgress = { items: 0, bytes: 0, path: '' };
+  private reported = Date.now();
+
+  constructor(private control: OperationControl) {}
+
+  /**
+   * Count one processed entry; throws once the operation was cancelled
+   */
+  step(entryPath: string, bytes = 0): void {
+    throwIfCancelled(this.control);
+
+    this.progress.items++;
+    this.progress.bytes += bytes;
+    this.progress.path = entryPath;
+
+    if (this.control.onProgress && Date.now() - this.reported >= PROGRESS_INTERVAL) {
+      this.control.onProgress({ ...this.progress });
+      this.reported = Date.now();
+    }
+  }
+}
+
+/**
+ * Flow control for a chunk stream: the sender waits while `size` chunks
+ * are sent but not yet consumed by the client (which reports them with
+ * `stream-ack` messages)
+ */
+export class ChunkWindow {
+  private consumed = 0;
+  private wake: (() => void) | null = null;
+
+  constructor(readonly size: number) {}
+
+  /**
+   * Record that the client consumed the first `count` chunks
+   */
+  ack(count: number): void {
+    if (count <= this.consumed) return;
+    this.consumed = count;
+    this.wake?.();
+  }
+
+  /**
+   * Wait until chunk `index` fits in the window (or the signal is aborted)
+   */
+  async wait(index: number, signal?: AbortSignal): Promise<void> {
+    while (index - this.consumed >= this.size && !signal?.aborted) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          this.wake = null;
+          signal?.removeEventListener('abort', done);
+          resolve();
+        };
+        this.wake = done;
+        signal?.addEventListener('abort', done, { once: true });
+      });
+    }
+  }
+}
+
+/**
+ * Cancellation and flow control for a handler call that streams chunks
+ */
+export interface StreamControl extends OperationControl {
+  /** Holds chunks back until the client consumed earlier ones */
+  window?: ChunkWindow;
+}
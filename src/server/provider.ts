@@ -0,0 +1,139 @@
+/**
+ * x-files.js Storage Provider interface
+ *
+ * XFilesHandler performs all storage access through a FileSystemProvider,
+ * so the same protocol and UI can be served from backing stores other than
+ * the local disk.
+ *
+ * Paths passed to a provider are absolute and have already been validated
+ * against allowedPaths. Providers report failures as errors carrying a
+ * Node.js-style `code` (ENOENT, EEXIST, ENOTDIR, EISDIR, ENOTEMPTY).
+ */
+
+import type { WatchOptions } from '../shared/types.js';
+
+/**
+ * Metadata for a file or directory
+ */
+export interface ProviderStats {
+  isFile: boolean;
+  isDirectory: boolean;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  mtime: Date;
+  /** Creation time */
+  birthtime: Date;
+  /** Stable identity of the node, if the backend has one (used to detect renames) */
+  ino?: number;
+  /** True if this is a symbolic link (only reported by lstat) */
+  isSymbolicLink?: boolean;
+}
+
+/**
+ * Directory listing entry
+ */
+export interface ProviderEntry {
+  name: string;
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymbolicLink?: boolean;
+}
+
+/**
+ * Options for reading a file as a stream
+ */
+export interface ReadStreamOptions {
+  /** First byte to read */
+  start?: number;
+  /** Last byte to read (inclusive) */
+  end?: number;
+  /** Preferred bytes per chunk */
+  chunkSize?: number;
+}
+
+/**
+ * Sequential writer for a newly created file
+ */
+export interface FileWriter {
+  /** Append bytes */
+  write(data: Buffer): Promise<void>;
+  /** Flush the file to storage and release it */
+  close(): Promise<void>;
+}
+
+/**
+ * Handle for an active directory watch
+ */
+export interface ProviderWatcher {
+  close(): void;
+}
+
+/**
+ * Storage backend used by XFilesHandler
+ */
+export interface FileSystemProvider {
+  /** List the entries of a directory */
+  list(dirPath: string): Promise<ProviderEntry[]>;
+
+  /** Get metadata, following symbolic links */
+  stat(itemPath: string): Promise<ProviderStats>;
+
+  /**
+   * Get metadata without following a final symbolic link.
+   * Optional, like realpath and readlink: backends without symbolic links
+   * omit all three and every path is treated as link-free.
+   */
+  lstat?(itemPath: string): Promise<ProviderStats>;
+
+  /** Resolve every symbolic link in an existing path */
+  realpath?(itemPath: string): Promise<string>;
+
+  /** Read the target of a symbolic link */
+  readlink?(linkPath: string): Promise<string>;
+
+  /** Read a whole file */
+  read(filePath: string): Promise<Buffer>;
+
+  /**
+   * Create or replace a file. Should be atomic: after a crash the file
+   * holds either its old or its new content, never part of the new one.
+   */
+  write(filePath: string, data: Buffer): Promise<void>;
+
+  /** Create a directory */
+  mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void>;
+
+  /** Remove a file or directory; `force` ignores missing paths */
+  rm(itemPath: string, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
+
+  /** Rename or move a file or directory, replacing an existing file */
+  rename(oldPath: string, newPath: string): Promise<void>;
+
+  /**
+   * Move a finished temp file (from createWriteStream) over a file the way
+   * `write` replaces it, e.g. keeping the replaced file's mode.
+   * Optional: without it the handler renames the temp file.
+   */
+  replace?(tempPath: string, filePath: string): Promise<void>;
+
+  /** Copy a single file, replacing an existing file */
+  copy(source: string, destination: string): Promise<void>;
+
+  /** Read a file, or an inclusive byte range of it, in chunks */
+  createReadStream(filePath: string, options?: ReadStreamOptions): AsyncIterable<Buffer>;
+
+  /** Create a new file (failing with EEXIST if it exists) and write it sequentially */
+  createWriteStream(filePath: string): Promise<FileWriter>;
+
+  /**
+   * Report names of changed entries in a directory.
+   * Optional: without it, the handler rejects `watch` requests.
+   */
+  watch?(
+    dirPath: string,
+    options: WatchOptions,
+    onChange: (filename: string) => void,
+    onError: (error: Error) => void
+  ): ProviderWatcher;
+}
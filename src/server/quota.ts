@@ -0,0 +1,123 @@
+/**
+ * x-files.js Storage Usage
+ *
+ * Measures how many bytes and entries live below a root. Each root is
+ * scanned once, the first time its quota is checked; after that the
+ * handler reports its own changes so usage is never rescanned per write.
+ */
+
+import * as path from 'path';
+import { isWithin } from './paths.js';
+import type { FileSystemProvider } from './provider.js';
+
+/**
+ * Storage limits for a root (omitted limits are unlimited)
+ */
+export interface Quota {
+  /** Total size of all files (bytes) */
+  maxBytes?: number;
+
+  /** Number of files and directories */
+  maxFiles?: number;
+}
+
+/**
+ * Bytes and entries below a path
+ */
+export interface Usage {
+  bytes: number;
+  files: number;
+}
+
+/**
+ * Keeps the usage of every root that has been scanned
+ */
+export class UsageTracker {
+  private roots = new Map<string, Promise<Usage>>();
+
+  /**
+   * @param ignore Entry names never counted (e.g. temp files of unfinished writes)
+   */
+  constructor(private provider: FileSystemProvider, private ignore: (name: string) => boolean = () => false) {}
+
+  /**
+   * Get the usage of a root, scanning it the first time
+   */
+  get(root: string): Promise<Usage> {
+    let usage = this.roots.get(root);
+    if (!usage) {
+      usage = this.measureContents(root);
+      this.roots.set(root, usage);
+      // Let a failed scan be retried
+      usage.catch(() => this.roots.delete(root));
+    }
+    return usage;
+  }
+
+  /**
+   * Whether a tracked root contains a path
+   */
+  isTracked(itemPath: string): boolean {
+    for (const root of this.roots.keys()) {
+      if (isWithin(itemPath, root)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Apply a change below a path to every tracked root containing it
+   */
+  add(itemPath: string, delta: Usage): void {
+    for (const [root, usage] of this.roots) {
+      if (isWithin(itemPath, root) && itemPath !== root) {
+        usage.then((current) => {
+          current.bytes = Math.max(0, current.bytes + delta.bytes);
+          current.files = Math.max(0, current.files + delta.files);
+        }, () => {});
+      }
+    }
+  }
+
+  /**
+   * Drop cached usage so it is scanned again (all roots, or one)
+   */
+  reset(root?: string): void {
+    if (root === undefined) {
+      this.roots.clear();
+    } else {
+      this.roots.delete(root);
+    }
+  }
+
+  /**
+   * Measure a file or directory, including the entry itself
+   * (nothing if it doesn't exist)
+   */
+  async measure(itemPath: string): Promise<Usage> {
+    const stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, itemPath).catch((error) => {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    });
+    if (!stats) return { bytes: 0, files: 0 };
+
+    if (!stats.isDirectory) {
+      return { bytes: stats.size, files: 1 };
+    }
+
+    const contents = await this.measureContents(itemPath);
+    return { bytes: contents.bytes, files: contents.files + 1 };
+  }
+
+  private async measureContents(dirPath: string): Promise<Usage> {
+    const usage: Usage = { bytes: 0, files: 0 };
+
+    for (const entry of await this.provider.list(dirPath)) {
+      if (this.ignore(entry.name)) continue;
+      const entryUsage = await this.measure(path.join(dirPath, entry.name));
+      usage.bytes += entryUsage.bytes;
+      usage.files += entryUsage.files;
+    }
+
+    return usage;
+  }
+}
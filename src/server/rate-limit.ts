@@ -0,0 +1,105 @@
+/**
+ * x-files.js Rate Limiting
+ *
+ * Token buckets for operations and bytes, plus a cap on requests in flight.
+ * XFilesHandler keeps one limiter per connection and one per user.
+ */
+
+/**
+ * Limits applied to a connection or a user (omitted limits are unlimited)
+ */
+export interface RateLimits {
+  /** Operations per second (short bursts up to this many are allowed) */
+  operationsPerSecond?: number;
+
+  /** Content bytes read or written per minute */
+  bytesPerMinute?: number;
+
+  /** Requests processed at the same time */
+  maxConcurrent?: number;
+}
+
+/**
+ * Suggested wait when only the concurrency cap is reached (ms)
+ */
+const CONCURRENCY_RETRY_AFTER = 250;
+
+/**
+ * Tracks the budget of one connection or user
+ */
+export class RateLimiter {
+  private operations: number;
+  private bytes: number;
+  private inFlight = 0;
+  private updated = Date.now();
+
+  constructor(private limits: RateLimits) {
+    this.operations = limits.operationsPerSecond ?? 0;
+    this.bytes = limits.bytesPerMinute ?? 0;
+  }
+
+  /**
+   * How long to wait before another operation may start (ms; 0 = now)
+   */
+  retryAfter(): number {
+    this.refill();
+    const { operationsPerSecond, bytesPerMinute, maxConcurrent } = this.limits;
+    let wait = 0;
+
+    if (maxConcurrent !== undefined && this.inFlight >= maxConcurrent) {
+      wait = Math.max(wait, CONCURRENCY_RETRY_AFTER);
+    }
+    if (operationsPerSecond !== undefined && this.operations < 1) {
+      wait = Math.max(wait, Math.ceil(((1 - this.operations) / operationsPerSecond) * 1000));
+    }
+    // Transfers may overdraw the byte budget; wait until it is positive again
+    if (bytesPerMinute !== undefined && this.bytes <= 0) {
+      wait = Math.max(wait, Math.ceil((-this.bytes / bytesPerMinute) * 60_000) || 1);
+    }
+
+    return wait;
+  }
+
+  /**
+   * Whether nothing is running and the budget is full again, so a fresh
+   * limiter would allow exactly the same
+   */
+  idle(): boolean {
+    this.refill();
+    const { operationsPerSecond, bytesPerMinute } = this.limits;
+    return this.inFlight === 0
+      && (operationsPerSecond === undefined || this.operations >= operationsPerSecond)
+      && (bytesPerMinute === undefined || this.bytes >= bytesPerMinute);
+  }
+
+  /**
+   * Record the start of an operation
+   */
+  begin(): void {
+    this.operations--;
+    this.inFlight++;
+  }
+
+  /**
+   * Record the end of an operation and the bytes it transferred
+   */
+  end(bytes: number): void {
+    this.refill();
+    this.inFlight--;
+    this.bytes -= bytes;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.updated;
+    this.updated = now;
+
+    const { operationsPerSecond, bytesPerMinute } = this.limits;
+    if (operationsPerSecond !== undefined) {
+      this.operations = Math.min(operationsPerSecond, this.operations + (elapsed / 1000) * operationsPerSecond);
+    }
+    if (bytesPerMinute !== undefined) {
+      this.bytes = Math.min(bytesPerMinute, this.bytes + (elapsed / 60_000) * bytesPerMinute);
+    }
+  }
+}
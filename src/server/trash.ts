@@ -0,0 +1,191 @@
+/**
+ * x-files.js Trash
+ *
+ * In trash mode XFilesHandler moves deleted items into a trash directory
+ * inside the root they were deleted from, so deleting never copies data
+ * between file systems. Each item is stored under its id, next to an
+ * `<id>.json` file recording where it came from and when it was deleted.
+ */
+
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { TrashItem } from '../shared/types.js';
+import type { FileSystemProvider } from './provider.js';
+
+/**
+ * Options for trash mode
+ */
+export interface TrashOptions {
+  /**
+   * Name of the trash directory created in each allowed root.
+   * It is hidden from clients and can't be accessed directly.
+   * @default '.x-files-trash'
+   */
+  directory?: string;
+
+  /**
+   * Purge items this many days after they were deleted (0 keeps them)
+   * @default 30
+   */
+  retentionDays?: number;
+}
+
+/**
+ * Trash item metadata as stored next to the item
+ */
+type StoredItem = Omit<TrashItem, 'root' | 'expiresAt'>;
+
+/**
+ * Look for expired items in a root at most this often (ms)
+ */
+const EXPIRE_INTERVAL = 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ID_PATTERN = /^[0-9a-f-]+$/;
+
+/**
+ * Moves items in and out of the trash directories of the allowed roots
+ */
+export class Trash {
+  readonly directory: string;
+  private retentionDays: number;
+  private lastExpired = new Map<string, number>();
+
+  constructor(private provider: FileSystemProvider, options: TrashOptions = {}) {
+    this.directory = options.directory ?? '.x-files-trash';
+    this.retentionDays = options.retentionDays ?? 30;
+  }
+
+  /**
+   * Trash directory of a root
+   */
+  dirOf(root: string): string {
+    return path.join(root, this.directory);
+  }
+
+  /**
+   * Where the content of an item is stored
+   */
+  pathOf(item: TrashItem): string {
+    return path.join(this.dirOf(item.root), item.id);
+  }
+
+  /**
+   * Move an item into the trash of a root
+   */
+  async add(root: string, itemPath: string): Promise<TrashItem> {
+    const stats = await (this.provider.lstat ?? this.provider.stat).call(this.provider, itemPath);
+    const stored: StoredItem = {
+      id: randomUUID(),
+      name: path.basename(itemPath),
+      originalPath: itemPath,
+      deletedAt: new Date().toISOString(),
+      isDirectory: stats.isDirectory,
+      size: stats.isDirectory ? 0 : stats.size,
+    };
+    const item = this.describe(root, stored);
+    const metaPath = `${this.pathOf(item)}.json`;
+
+    // Write the record first so a moved item is never left without one
+    await this.provider.mkdir(this.dirOf(root), { recursive: true });
+    await this.provider.write(metaPath, Buffer.from(JSON.stringify(stored)));
+    try {
+      await this.provider.rename(itemPath, this.pathOf(item));
+    } catch (error) {
+      await this.provider.rm(metaPath, { force: true });
+      throw error;
+    }
+
+    return item;
+  }
+
+  /**
+   * Get every item in the trash of a root, most recently deleted first
+   */
+  async list(root: string): Promise<TrashItem[]> {
+    const entries = await this.provider.list(this.dirOf(root)).catch((error) => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+    const items: TrashItem[] = [];
+
+    for (const entry of entries) {
+      if (!entry.name.endsWith('.json')) continue;
+      const item = await this.read(root, entry.name.slice(0, -'.json'.length));
+      if (item) items.push(item);
+    }
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Find an item in the trash of any of the given roots
+   */
+  async find(roots: string[], id: string): Promise<TrashItem> {
+    if (ID_PATTERN.test(id)) {
+      for (const root of roots) {
+        const item = await this.read(root, id);
+        if (item) return item;
+      }
+    }
+    throw new Error(`Not in trash: ${id}`);
+  }
+
+  /**
+   * Move an item out of the trash
+   */
+  async restore(item: TrashItem, targetPath: string): Promise<void> {
+    await this.provider.rename(this.pathOf(item), targetPath);
+    await this.provider.rm(`${this.pathOf(item)}.json`, { force: true });
+  }
+
+  /**
+   * Delete an item permanently
+   */
+  async remove(item: TrashItem): Promise<void> {
+    await this.provider.rm(this.pathOf(item), { recursive: true, force: true });
+    await this.provider.rm(`${this.pathOf(item)}.json`, { force: true });
+  }
+
+  /**
+   * Get the items of a root that are past their retention period
+   * (nothing if the root was checked recently)
+   */
+  async expired(root: string): Promise<TrashItem[]> {
+    if (this.retentionDays <= 0) return [];
+
+    const now = Date.now();
+    if (now - (this.lastExpired.get(root) ?? 0) < EXPIRE_INTERVAL) return [];
+    this.lastExpired.set(root, now);
+
+    const items = await this.list(root);
+    return items.filter((item) => this.isExpired(item, now));
+  }
+
+  /**
+   * Check whether an item is past its retention period
+   */
+  isExpired(item: TrashItem, now = Date.now()): boolean {
+    return item.expiresAt !== undefined && Date.parse(item.expiresAt) <= now;
+  }
+
+  private async read(root: string, id: string): Promise<TrashItem | null> {
+    try {
+      const stored: StoredItem = JSON.parse((await this.provider.read(path.join(this.dirOf(root), `${id}.json`))).toString());
+      return this.describe(root, stored);
+    } catch {
+      return null;
+    }
+  }
+
+  private describe(root: string, stored: StoredItem): TrashItem {
+    return {
+      ...stored,
+      root,
+      ...(this.retentionDays > 0
+        ? { expiresAt: new Date(Date.parse(stored.deletedAt) + this.retentionDays * DAY).toISOString() }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * x-files.js Directory Watcher
+ *
+ * Turns the raw "this name changed" notifications of a storage provider
+ * into create/modify/delete/rename events for a single directory.
+ */
+
+import * as path from 'path';
+import type { WatchEvent, WatchOptions } from '../shared/types.js';
+import { isWithin } from './paths.js';
+import type { FileSystemProvider, ProviderWatcher } from './provider.js';
+
+/**
+ * Time to collect raw notifications before classifying them (ms)
+ */
+const DEBOUNCE_MS = 50;
+
+/**
+ * Watches a directory and reports classified change events
+ */
+export class DirectoryWatcher {
+  private watcher: ProviderWatcher | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending = new Set<string>();
+  private flushing: Promise<void> = Promise.resolve();
+
+  /** Last known identity of each path, used to pair deletes and creates into renames */
+  private inodes = new Map<string, number | undefined>();
+
+  constructor(
+    readonly id: number,
+    readonly dirPath: string,
+    private provider: FileSystemProvider,
+    private onEvent: (event: WatchEvent) => void,
+    private options: WatchOptions = {}
+  ) {}
+
+  /**
+   * Start watching
+   */
+  async start(): Promise<void> {
+    if (!this.provider.watch) {
+      throw new Error('Watching is not supported by this storage provider');
+    }
+
+    this.watcher = this.provider.watch(
+      this.dirPath,
+      this.options,
+      (filename) => {
+        this.pending.add(path.join(this.dirPath, filename));
+        this.schedule();
+      },
+      // The watched directory itself went away or became unreadable
+      () => {
+        if (!this.watcher) return;
+        this.close();
+        this.onEvent({ watchId: this.id, type: 'error', path: this.dirPath });
+      }
+    );
+
+    await this.rememberTree(this.dirPath);
+  }
+
+  /**
+   * Whether this watch reports changes of an entry
+   */
+  covers(entryPath: string): boolean {
+    const relative = path.relative(this.dirPath, entryPath);
+    if (relative === '' || !isWithin(entryPath, this.dirPath)) {
+      return false;
+    }
+    return this.options.recursive === true || !relative.includes(path.sep);
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+    this.pending.clear();
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flushing = this.flushing.then(() => this.flush());
+    }, DEBOUNCE_MS);
+  }
+
+  /**
+   * Remember the entries of a directory, and of its subdirectories when
+   * watching recursively, so later changes to them are told apart from creates
+   */
+  private async rememberTree(dirPath: string): Promise<void> {
+    const entries = await this.provider.list(dirPath).catch((error) => {
+      // Only the watched directory itself has to be readable
+      if (dirPath === this.dirPath) throw error;
+      return [];
+    });
+
+    await Promise.all(entries.map(async (entry) => {
+      const entryPath = path.join(dirPath, entry.name);
+      await this.remember(entryPath);
+      if (this.options.recursive && entry.isDirectory && !entry.isSymbolicLink) {
+        await this.rememberTree(entryPath);
+      }
+    }));
+  }
+
+  private async remember(entryPath: string): Promise<void> {
+    try {
+      const stats = await this.provider.stat(entryPath);
+      this.inodes.set(entryPath, stats.ino);
+    } catch {
+      // Skip entries we can't access
+    }
+  }
+
+  /**
+   * Classify collected notifications and emit events
+   */
+  private async flush(): Promise<void> {
+    const batch = [...this.pending];
+    this.pending.clear();
+
+    const vanished: { path: string; ino?: number }[] = [];
+    const appeared: { path: string; ino?: number; isDirectory: boolean }[] = [];
+    const modified: string[] = [];
+    const directories: string[] = [];
+
+    for (const entryPath of batch) {
+      const wasKnown = this.inodes.has(entryPath);
+      const known = this.inodes.get(entryPath);
+      let exists = true;
+      let ino: number | undefined;
+      let isDirectory = false;
+      try {
+        ({ ino, isDirectory } = await this.provider.stat(entryPath));
+      } catch {
+        exists = false;
+      }
+
+      if (!exists) {
+        // Paths never seen (e.g. created and removed within one batch) are reported as deleted too
+        this.forget(entryPath);
+        vanished.push({ path: entryPath, ino: known });
+      } else if (!wasKnown) {
+        this.inodes.set(entryPath, ino);
+        appeared.push({ path: entryPath, ino, isDirectory });
+      } else {
+        // Atomic saves replace the inode but keep the name, so that is a modify too
+        this.inodes.set(entryPath, ino);
+        modified.push(entryPath);
+      }
+    }
+
+    if (!this.watcher) return;
+
+    for (const gone of vanished) {
+      const index = gone.ino === undefined ? -1 : appeared.findIndex((entry) => entry.ino === gone.ino);
+      if (index === -1) {
+        this.onEvent({ watchId: this.id, type: 'delete', path: gone.path });
+      } else {
+        const [target] = appeared.splice(index, 1);
+        this.onEvent({ watchId: this.id, type: 'rename', path: target.path, oldPath: gone.path });
+        if (target.isDirectory) directories.push(target.path);
+      }
+    }
+
+    for (const entry of appeared) {
+      this.onEvent({ watchId: this.id, type: 'create', path: entry.path });
+      if (entry.isDirectory) directories.push(entry.path);
+    }
+
+    for (const entryPath of modified) {
+      this.onEvent({ watchId: this.id, type: 'modify', path: entryPath });
+    }
+
+    // Directories moved in bring entries no notification mentions until they change
+    if (this.options.recursive) {
+      await Promise.all(directories.map((dirPath) => this.rememberTree(dirPath)));
+    }
+  }
+
+  /**
+   * Drop a path and everything known below it
+   */
+  private forget(entryPath: string): void {
+    this.inodes.delete(entryPath);
+    if (!this.options.recursive) return;
+
+    const prefix = `${entryPath}${path.sep}`;
+    for (const knownPath of this.inodes.keys()) {
+      if (knownPath.startsWith(prefix)) {
+        this.inodes.delete(knownPath);
+      }
+    }
+  }
+}
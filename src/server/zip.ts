@@ -0,0 +1,301 @@
+/**
+ * x-files.js Zip Writer
+ *
+ * Writes a zip archive as a stream, without external binaries. Entries are
+ * deflated with zlib and followed by a data descriptor, so nothing has to
+ * be buffered or seeked. Zip64 records are added only where sizes or
+ * offsets need them.
+ */
+
+import { once } from 'events';
+import * as zlib from 'zlib';
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+
+/** General purpose flags: sizes follow in a data descriptor, names are UTF-8 */
+const FLAGS = 0x0008 | 0x0800;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** "Made by" Unix with spec 4.5, so external attributes carry the mode */
+const VERSION_MADE_BY = (3 << 8) | 45;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+/**
+ * Files at least this large get Zip64 sizes up front, since deflate may
+ * not shrink them below the 32-bit limit
+ */
+const ZIP64_THRESHOLD = 0xf0000000;
+
+/**
+ * What the central directory needs to know about a written entry
+ */
+interface CentralEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+  attributes: number;
+}
+
+/**
+ * Streams a zip archive to an output callback
+ *
+ * @example
+ * ```typescript
+ * const zip = new ZipWriter((data) => out.write(data));
+ * await zip.addDirectory('build/', new Date());
+ * await zip.addFile('build/app.js', new Date(), size, provider.createReadStream('/src/build/app.js'));
+ * await zip.finish();
+ * ```
+ */
+export class ZipWriter {
+  private offset = 0;
+  private entries: CentralEntry[] = [];
+
+  constructor(private output: (data: Buffer) => void | Promise<void>) {}
+
+  /**
+   * Bytes written so far
+   */
+  get size(): number {
+    return this.offset;
+  }
+
+  /**
+   * Add a directory entry (the name should end with '/')
+   */
+  async addDirectory(name: string, modified: Date): Promise<void> {
+    const entryName = name.endsWith('/') ? name : `${name}/`;
+    const entry = this.startEntry(entryName, modified, METHOD_STORE, false, 0o40755 << 16 | 0x10);
+    await this.write(this.localHeader(entry));
+    await this.finishEntry(entry);
+  }
+
+  /**
+   * Add a file, deflating its content as it streams in
+   * @param size Expected size, used to decide on Zip64 sizes up front
+   */
+  async addFile(name: string, modified: Date, size: number, content: AsyncIterable<Buffer>): Promise<void> {
+    const entry = this.startEntry(name, modified, METHOD_DEFLATE, size >= ZIP64_THRESHOLD, 0o100644 << 16);
+    await this.write(this.localHeader(entry));
+
+    const deflate = zlib.createDeflateRaw();
+    const compressed = (async () => {
+      for await (const data of deflate) {
+        entry.compressedSize += data.length;
+        await this.write(data);
+      }
+    })();
+
+    try {
+      for await (const data of content) {
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        if (!deflate.write(data)) {
+          await once(deflate, 'drain');
+        }
+      }
+      deflate.end();
+    } catch (error) {
+      deflate.destroy();
+      await compressed.catch(() => {});
+      throw error;
+    }
+    await compressed;
+
+    if (!entry.zip64 && (entry.size >= MAX_32 || entry.compressedSize >= MAX_32)) {
+      throw new Error(`File grew past the size it was announced with: ${name}`);
+    }
+    await this.finishEntry(entry);
+  }
+
+  /**
+   * Write the central directory; no entries can be added afterwards
+   */
+  async finish(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      await this.write(this.centralHeader(entry));
+    }
+    const length = this.offset - start;
+    const count = this.entries.length;
+
+    if (count >= MAX_16 || start >= MAX_32 || length >= MAX_32) {
+      const record = Buffer.alloc(56);
+      record.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+      writeUInt64(record, 44, 4);
+      record.writeUInt16LE(VERSION_MADE_BY, 12);
+      record.writeUInt16LE(VERSION_ZIP64, 14);
+      writeUInt64(record, count, 24);
+      writeUInt64(record, count, 32);
+      writeUInt64(record, length, 40);
+      writeUInt64(record, start, 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(ZIP64_LOCATOR, 0);
+      writeUInt64(locator, this.offset, 8);
+      locator.writeUInt32LE(1, 16);
+
+      await this.write(Buffer.concat([record, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(Math.min(count, MAX_16), 8);
+    end.writeUInt16LE(Math.min(count, MAX_16), 10);
+    end.writeUInt32LE(Math.min(length, MAX_32), 12);
+    end.writeUInt32LE(Math.min(start, MAX_32), 16);
+    await this.write(end);
+  }
+
+  private startEntry(name: string, modified: Date, method: number, zip64: boolean, attributes: number): CentralEntry {
+    const { time, date } = toDosTime(modified);
+    const entry: CentralEntry = {
+      name: Buffer.from(name),
+      method,
+      time,
+      date,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      zip64,
+      attributes,
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private localHeader(entry: CentralEntry): Buffer {
+    // Sizes and CRC follow in the data descriptor
+    const extra = entry.zip64 ? zip64Extra([0, 0]) : Buffer.alloc(0);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    if (entry.zip64) {
+      header.writeUInt32LE(MAX_32, 18);
+      header.writeUInt32LE(MAX_32, 22);
+    }
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    return Buffer.concat([header, entry.name, extra]);
+  }
+
+  private async finishEntry(entry: CentralEntry): Promise<void> {
+    const descriptor = Buffer.alloc(entry.zip64 ? 24 : 16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    if (entry.zip64) {
+      writeUInt64(descriptor, entry.compressedSize, 8);
+      writeUInt64(descriptor, entry.size, 16);
+    } else {
+      descriptor.writeUInt32LE(entry.compressedSize, 8);
+      descriptor.writeUInt32LE(entry.size, 12);
+    }
+    await this.write(descriptor);
+  }
+
+  private centralHeader(entry: CentralEntry): Buffer {
+    const sizesIn64 = entry.zip64 || entry.size >= MAX_32 || entry.compressedSize >= MAX_32;
+    const offsetIn64 = entry.offset >= MAX_32;
+    const extra = zip64Extra([
+      ...(sizesIn64 ? [entry.size, entry.compressedSize] : []),
+      ...(offsetIn64 ? [entry.offset] : []),
+    ]);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_HEADER, 0);
+    header.writeUInt16LE(VERSION_MADE_BY, 4);
+    header.writeUInt16LE(extra.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(entry.method, 10);
+    header.writeUInt16LE(entry.time, 12);
+    header.writeUInt16LE(entry.date, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(sizesIn64 ? MAX_32 : entry.compressedSize, 20);
+    header.writeUInt32LE(sizesIn64 ? MAX_32 : entry.size, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(entry.attributes >>> 0, 38);
+    header.writeUInt32LE(offsetIn64 ? MAX_32 : entry.offset, 42);
+    return Buffer.concat([header, entry.name, extra]);
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    await this.output(data);
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (as used by zip and gzip), continuing from a previous value
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+function zip64Extra(values: number[]): Buffer {
+  if (values.length === 0) return Buffer.alloc(0);
+
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(ZIP64_EXTRA, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => writeUInt64(extra, value, 4 + i * 8));
+  return extra;
+}
+
+function writeUInt64(buffer: Buffer, value: number, offset: number): void {
+  buffer.writeBigUInt64LE(BigInt(value), offset);
+}
+
+/**
+ * Convert a date to MS-DOS time and date fields (local time, 2-second precision)
+ */
+function toDosTime(value: Date): { time: number; date: number } {
+  const year = value.getFullYear();
+  if (year < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((Math.min(year, 2107) - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
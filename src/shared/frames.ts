@@ -0,0 +1,73 @@
+/**
+ * Binary frame codec for x-files.js
+ *
+ * A binary WebSocket frame carries one protocol message plus raw file bytes:
+ *
+ *   [uint32 header length, big-endian][header: UTF-8 JSON message][payload]
+ *
+ * The payload stands in for the message's `content` field: `data.content` on
+ * results, `chunk.content` on download chunks, and top-level `content` on
+ * client requests. The header's `requestId` ties the frame to its request.
+ */
+
+import type { ClientMessage, ServerMessage } from './types.js';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Object whose `content` field the payload replaces
+ */
+function payloadHolder(message: any): any {
+  if (message.type === 'result') return message.data;
+  if (message.type === 'chunk') return message.chunk;
+  return message;
+}
+
+/**
+ * Shallow copy of a message without its `content` field
+ * (a replacer can't drop it: Buffer.toJSON runs first)
+ */
+function withoutPayload(message: any): any {
+  if (message.type === 'result') return { ...message, data: { ...message.data, content: undefined } };
+  if (message.type === 'chunk') return { ...message, chunk: { ...message.chunk, content: undefined } };
+  return { ...message, content: undefined };
+}
+
+/**
+ * Encode a message and its payload into a single binary frame
+ */
+export function encodeFrame(message: ClientMessage | ServerMessage, payload: Uint8Array): Uint8Array {
+  const header = textEncoder.encode(JSON.stringify(withoutPayload(message)));
+  const frame = new Uint8Array(4 + header.length + payload.length);
+
+  new DataView(frame.buffer).setUint32(0, header.length);
+  frame.set(header, 4);
+  frame.set(payload, 4 + header.length);
+
+  return frame;
+}
+
+/**
+ * Decode a binary frame, putting the payload back in place of `content`.
+ * The payload is a view into the frame, not a copy.
+ */
+export function decodeFrame<T extends ClientMessage | ServerMessage>(frame: Uint8Array): T {
+  if (frame.length < 4) {
+    throw new Error('Invalid binary frame');
+  }
+
+  const headerLength = new DataView(frame.buffer, frame.byteOffset, frame.byteLength).getUint32(0);
+  if (4 + headerLength > frame.length) {
+    throw new Error('Invalid binary frame');
+  }
+
+  const message = JSON.parse(textDecoder.decode(frame.subarray(4, 4 + headerLength)));
+  const holder = payloadHolder(message);
+  if (!holder || typeof holder !== 'object') {
+    throw new Error('Invalid binary frame');
+  }
+  holder.content = frame.subarray(4 + headerLength);
+
+  return message;
+}
@@ -22,6 +22,40 @@ export interface FileEntry {
   created: string;
   /** File permissions (optional) */
   permissions?: string;
+  /** True if this entry is a symbolic link (isDirectory/isFile then describe its target) */
+  isSymlink?: boolean;
+  /** Target of the symbolic link, as stored in the link */
+  linkTarget?: string;
+  /** Changes whenever the item is modified or replaced (pass as `ifMatch`) */
+  version?: string;
+  /** Edit lease someone holds on this path */
+  lock?: FileLock;
+}
+
+/**
+ * Exclusive edit lease on a path (see `lock`)
+ */
+export interface FileLock {
+  /** Identifies the lease; stays the same when it is renewed */
+  id: string;
+  /** Locked path */
+  path: string;
+  /** Who holds the lease (the user's name or id, if the server knows it) */
+  holder?: string;
+  /** When the lease runs out unless it is renewed (ISO string) */
+  expiresAt: string;
+}
+
+/**
+ * Condition for changing an item (optimistic concurrency)
+ */
+export interface Precondition {
+  /**
+   * Only change the item if it is still at this version (from `read`,
+   * `stat`, `list` or an earlier write); otherwise the request fails with
+   * code 'CONFLICT'. A missing item never matches.
+   */
+  ifMatch?: string;
 }
 
 /**
@@ -36,6 +70,49 @@ export interface ServerConfig {
   allowDelete: boolean;
   /** Maximum file size for read/write (bytes) */
   maxFileSize: number;
+  /** Maximum total size of a chunked upload (bytes) */
+  maxUploadSize: number;
+  /** Whether the server accepts and can send binary frames (see frames.ts) */
+  binaryFrames: boolean;
+  /** Whether deleted items go to the trash (and can be restored) */
+  trash: boolean;
+}
+
+/**
+ * What a directory page is sorted by (directories always come first):
+ * - 'type': the file extension, then the name
+ */
+export type ListSortBy = 'name' | 'size' | 'modified' | 'type';
+
+/**
+ * Page of a directory listing to fetch
+ */
+export interface ListOptions {
+  /** Entries per page (default: 100, max: 1000) */
+  limit?: number;
+  /** Entries to skip (default: 0; ignored with cursor) */
+  offset?: number;
+  /** Continue after the page that returned this cursor (its sort order is kept) */
+  cursor?: string;
+  /** Sort field (default: 'name') */
+  sortBy?: ListSortBy;
+  /** Sort direction (default: 'asc') */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * One page of a directory listing
+ */
+export interface DirectoryPage {
+  /** Listed directory */
+  path: string;
+  entries: FileEntry[];
+  /** Readable entries in the whole directory */
+  total: number;
+  /** Position of the first entry in the sorted directory */
+  offset: number;
+  /** Pass as `cursor` to get the next page (absent on the last page) */
+  cursor?: string;
 }
 
 /**
@@ -53,7 +130,331 @@ export type MessageType =
   | 'exists'
   | 'search'
   | 'upload'
-  | 'download';
+  | 'download'
+  | 'download-stream'
+  | 'download-zip'
+  | 'upload-begin'
+  | 'upload-chunk'
+  | 'upload-commit'
+  | 'upload-abort'
+  | 'watch'
+  | 'unwatch'
+  | 'permissions'
+  | 'quota'
+  | 'trash-list'
+  | 'trash-restore'
+  | 'trash-purge'
+  | 'search-content'
+  | 'extract'
+  | 'hash'
+  | 'du'
+  | 'cancel'
+  | 'lock'
+  | 'unlock'
+  | 'stream-ack';
+
+/**
+ * Kind of access checked by the server's access rules
+ */
+export type AccessPermission = 'read' | 'write' | 'delete';
+
+/**
+ * Effective permissions for a path, returned by `permissions`
+ */
+export interface PathPermissions {
+  /** Path the permissions apply to */
+  path: string;
+  /** List, read and download */
+  read: boolean;
+  /** Create, modify, upload, and rename or copy onto */
+  write: boolean;
+  /** Delete */
+  delete: boolean;
+}
+
+/**
+ * Storage usage of a root against its quota, returned by `quota`
+ * (usage is only reported when a quota applies)
+ */
+export interface QuotaInfo {
+  /** Allowed root the usage is counted for */
+  root: string;
+  /** Total size of all files (bytes) */
+  bytes?: number;
+  /** Number of files and directories */
+  files?: number;
+  /** Byte limit */
+  maxBytes?: number;
+  /** File and directory count limit */
+  maxFiles?: number;
+}
+
+/**
+ * Total size of a directory tree, returned by `du`
+ * (and pushed as running totals while the tree is measured)
+ */
+export interface DiskUsage {
+  /** Directory measured */
+  path: string;
+  /** Total size of the files below it (bytes) */
+  bytes: number;
+  /** Files below it (symbolic links count as files and are not followed) */
+  files: number;
+  /** Directories below it */
+  directories: number;
+}
+
+/**
+ * Running totals of a copy, delete or file search, sent as progress messages
+ */
+export interface OperationProgress {
+  /** Entries copied, deleted or searched so far */
+  items: number;
+  /** Bytes of the files copied or deleted so far */
+  bytes: number;
+  /** Entry processed last */
+  path: string;
+}
+
+/**
+ * Checksum algorithms supported by `hash`
+ */
+export type HashAlgorithm = 'sha256' | 'sha1' | 'md5' | 'crc32';
+
+/**
+ * Checksum of a file, returned by `hash`
+ */
+export interface HashResult {
+  /** Path of the file */
+  path: string;
+  /** Algorithm used */
+  algorithm: HashAlgorithm;
+  /** Checksum as lowercase hex */
+  hash: string;
+  /** Bytes hashed */
+  size: number;
+  /** Whether the checksum equals the expected one (only when one was given) */
+  matches?: boolean;
+}
+
+/**
+ * Deleted item kept in the trash, returned by `trash-list`
+ */
+export interface TrashItem {
+  /** Trash identifier, used to restore or purge the item */
+  id: string;
+  /** Name the item had when it was deleted */
+  name: string;
+  /** Full path the item was deleted from */
+  originalPath: string;
+  /** Allowed root whose trash holds the item */
+  root: string;
+  /** When the item was deleted (ISO string) */
+  deletedAt: string;
+  /** When the item will be purged automatically (ISO string; absent if kept) */
+  expiresAt?: string;
+  /** True if the item is a directory */
+  isDirectory: boolean;
+  /** Size in bytes (0 for directories) */
+  size: number;
+}
+
+/**
+ * What `trash-restore` does when the restore target already exists:
+ * - 'fail': fail with code TARGET_EXISTS
+ * - 'rename': restore next to it as "name (1).ext"
+ * - 'overwrite': move the existing item to the trash first
+ */
+export type RestoreConflict = 'fail' | 'rename' | 'overwrite';
+
+/**
+ * State of a chunked upload session, returned by `upload-begin` and `upload-chunk`
+ */
+export interface UploadSession {
+  /** Session identifier, used to send chunks and to resume */
+  uploadId: string;
+  /** Destination path */
+  path: string;
+  /** Total size announced at begin (bytes) */
+  size: number;
+  /** Bytes acknowledged so far; the next chunk must start here */
+  offset: number;
+  /** Number of the next chunk the server expects */
+  nextIndex: number;
+}
+
+/**
+ * One piece of a streamed download, pushed before the final result
+ */
+export interface DownloadChunk {
+  /** Sequence number, starting at 0 */
+  index: number;
+  /** Absolute file offset of the first byte in this chunk */
+  offset: number;
+  /** Total bytes in the requested range (0 if not known in advance, as for zip archives) */
+  total: number;
+  /** Chunk bytes: base64 in JSON messages, raw in binary frames */
+  content: string | Uint8Array;
+}
+
+/**
+ * Query for a file name search
+ */
+export interface SearchOptions {
+  /** Search subdirectories too (default: true) */
+  recursive?: boolean;
+  /** Stop after this many results (default: 100) */
+  maxResults?: number;
+  /**
+   * How the pattern is matched (default: 'regex'):
+   * - 'regex': a regular expression tested against the name
+   * - 'glob': a glob matched against the whole name, or against the path
+   *   relative to the search directory if it contains '/'
+   */
+  mode?: 'regex' | 'glob';
+  /** Match case (default: false) */
+  caseSensitive?: boolean;
+  /** Only return files or only directories (default: both) */
+  type?: 'file' | 'directory';
+  /** Only files at least this large (bytes) */
+  minSize?: number;
+  /** Only files at most this large (bytes) */
+  maxSize?: number;
+  /** Only entries modified at or after this time (Date, ISO string or ms) */
+  modifiedAfter?: Date | string | number;
+  /** Only entries modified before this time (Date, ISO string or ms) */
+  modifiedBefore?: Date | string | number;
+  /** How many levels deep to search (1 = only the directory's own entries) */
+  maxDepth?: number;
+  /**
+   * Globs for paths to skip, matched against the path relative to the search
+   * directory at any depth (start with '/' to match from the search directory
+   * only). Excluded directories are not searched.
+   * @example ['node_modules/**', '.git/**', '*.min.js']
+   */
+  exclude?: string[];
+}
+
+/**
+ * Options for a content search
+ */
+export interface ContentSearchOptions {
+  /** Search subdirectories too (default: true) */
+  recursive?: boolean;
+  /** Match case (default: false) */
+  caseSensitive?: boolean;
+  /** Stop after this many matching files (default: 100) */
+  maxResults?: number;
+  /** Report at most this many matching lines per file (default: 100) */
+  maxMatchesPerFile?: number;
+  /** Skip files larger than this (bytes; default: 1MB, never above the server's maxFileSize) */
+  maxFileSize?: number;
+  /** Lines of context before and after each matching line (default: 2) */
+  contextLines?: number;
+}
+
+/**
+ * Matching line in a content search result
+ */
+export interface LineMatch {
+  /** Line number, starting at 1 */
+  line: number;
+  /** Text of the line */
+  text: string;
+  /** Matched parts of the line, as [start, end) character offsets */
+  ranges: { start: number; end: number }[];
+  /** Lines before the match (up to contextLines) */
+  before: string[];
+  /** Lines after the match (up to contextLines) */
+  after: string[];
+}
+
+/**
+ * File with matching lines, pushed by `search-content` before the final result
+ */
+export interface ContentMatch {
+  /** The matching file */
+  file: FileEntry;
+  /** Matching lines, in order */
+  matches: LineMatch[];
+  /** True if the file has more matching lines than maxMatchesPerFile */
+  truncated: boolean;
+}
+
+/**
+ * Archive formats that can be extracted
+ */
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/**
+ * Options for extracting an archive
+ */
+export interface ExtractOptions {
+  /** Archive format (default: detected from the extension: .zip, .tar, .tar.gz or .tgz) */
+  format?: ArchiveFormat;
+  /** Replace existing files (default: false, extraction stops at the first existing file) */
+  overwrite?: boolean;
+}
+
+/**
+ * Progress of an extraction, pushed by `extract` before the final result
+ */
+export interface ExtractProgress {
+  /** Entries extracted so far */
+  entries: number;
+  /** Bytes written so far */
+  bytes: number;
+  /** Entries in the archive, if known in advance (zip) */
+  totalEntries?: number;
+  /** Uncompressed size of the archive, if known in advance (zip) */
+  totalBytes?: number;
+  /** Path of the entry being extracted, inside the archive */
+  entry: string;
+}
+
+/**
+ * Outcome of an extraction
+ */
+export interface ExtractResult {
+  /** Directory the archive was extracted into */
+  path: string;
+  /** Files written */
+  files: number;
+  /** Directories created or already present */
+  directories: number;
+  /** Bytes written */
+  bytes: number;
+  /** Entries left out: symbolic links, hard links and special files */
+  skipped: number;
+}
+
+/**
+ * Kind of change reported by a directory watch
+ * ('lock' and 'unlock' when an edit lease on the path begins or ends)
+ */
+export type WatchEventType = 'create' | 'modify' | 'delete' | 'rename' | 'lock' | 'unlock' | 'error';
+
+/**
+ * File system change pushed to clients subscribed with `watch`
+ */
+export interface WatchEvent {
+  /** Watch subscription that produced this event */
+  watchId: number;
+  /** Kind of change */
+  type: WatchEventType;
+  /** Full path of the affected entry (the new path for renames) */
+  path: string;
+  /** Previous path (renames only) */
+  oldPath?: string;
+}
+
+/**
+ * Options for a directory watch
+ */
+export interface WatchOptions {
+  /** Also report changes in subdirectories (platform support varies) */
+  recursive?: boolean;
+}
 
 /**
  * Client request message
@@ -64,14 +465,37 @@ export interface ClientMessage {
   [key: string]: any;
 }
 
+/**
+ * Machine-readable reason for a failed request
+ * - RATE_LIMITED: a rate limit was hit; retry after `retryAfter` ms
+ * - QUOTA_EXCEEDED: the change would exceed the storage quota of its root
+ * - TARGET_EXISTS: a restore or extraction target already exists (`path` names it)
+ * - CANCELLED: the operation was stopped by a `cancel` request
+ * - CONFLICT: the item is no longer at the `ifMatch` version (`version` is
+ *   the current one, or null if the item is gone)
+ * - LOCKED: another connection holds an edit lease on the path (`lock`)
+ */
+export type ErrorCode = 'RATE_LIMITED' | 'QUOTA_EXCEEDED' | 'TARGET_EXISTS' | 'CANCELLED' | 'CONFLICT' | 'LOCKED';
+
 /**
  * Server response message
  */
 export interface ServerMessage {
-  type: 'connected' | 'result' | 'error';
+  type: 'connected' | 'result' | 'error' | 'event' | 'chunk' | 'match' | 'progress';
   requestId?: number;
   success?: boolean;
   data?: any;
   error?: string;
+  code?: ErrorCode;
+  /** Suggested wait before retrying (ms) */
+  retryAfter?: number;
+  /** Current version of the item, with code CONFLICT */
+  version?: string | null;
+  /** Lease that blocked the change, with code LOCKED */
+  lock?: FileLock;
   config?: ServerConfig;
+  event?: WatchEvent;
+  chunk?: DownloadChunk;
+  match?: ContentMatch;
+  progress?: ExtractProgress | DiskUsage | OperationProgress;
 }
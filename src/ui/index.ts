@@ -12,5 +12,5 @@ export { XFilesBreadcrumb } from './x-files-breadcrumb.js';
 
 // Re-export client for convenience
 export { XFilesClient } from '../client/client.js';
-export type { XFilesClientConfig } from '../client/client.js';
-export type { FileEntry, ServerConfig } from '../shared/types.js';
+export type { XFilesClientConfig, XFilesError, UploadOptions, DownloadOptions, RestoreOptions, ExtractArchiveOptions, DiskUsageOptions, OperationOptions, SearchFilesOptions, DeleteOptions } from '../client/client.js';
+export type { FileEntry, FileLock, DirectoryPage, ListOptions, ListSortBy, Precondition, ServerConfig, ErrorCode, PathPermissions, QuotaInfo, SearchOptions, ContentMatch, ContentSearchOptions, LineMatch, TrashItem, RestoreConflict, ArchiveFormat, ExtractOptions, ExtractProgress, ExtractResult, DiskUsage, OperationProgress, HashAlgorithm, HashResult, WatchEvent, WatchEventType, WatchOptions } from '../shared/types.js';
@@ -5,11 +5,49 @@
 import { LitElement, html, css, nothing } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { sharedStyles, buttonStyles, inputStyles, themeStyles } from './styles.js';
-import { XFilesClient } from '../client/client.js';
-import type { FileEntry, ServerConfig } from '../shared/types.js';
+import { XFilesClient, type OperationOptions, type XFilesError } from '../client/client.js';
+import type { DirectoryPage, DiskUsage, FileEntry, FileLock, HashAlgorithm, HashResult, ListSortBy, OperationProgress, PathPermissions, QuotaInfo, ServerConfig, TrashItem } from '../shared/types.js';
 import './x-files-icon.js';
 import './x-files-breadcrumb.js';
 
+/**
+ * State of the properties dialog and its checksum
+ */
+interface PropertiesDialog {
+  file: FileEntry;
+  algorithm: HashAlgorithm;
+  expected: string;
+  hashing: boolean;
+  result: HashResult | null;
+  error: string | null;
+}
+
+/**
+ * Cancellable operation shown in the progress toast
+ */
+interface RunningOperation {
+  label: string;
+  progress: OperationProgress | null;
+  controller: AbortController;
+}
+
+/**
+ * Entries fetched per page of the file list
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * Duration of edit leases taken from the context menu (renewed at half-time) (ms)
+ */
+const LOCK_TTL = 60 * 1000;
+
+const SORT_FIELDS: [ListSortBy, string][] = [
+  ['name', 'Name'],
+  ['size', 'Size'],
+  ['modified', 'Modified'],
+  ['type', 'Type'],
+];
+
 @customElement('x-files-browser')
 export class XFilesBrowser extends LitElement {
   static override styles = [
@@ -74,6 +112,17 @@ export class XFilesBrowser extends LitElement {
         white-space: nowrap;
       }
 
+      .link-target {
+        color: var(--xf-text-muted);
+        font-size: 12px;
+      }
+
+      .lock-badge {
+        color: var(--xf-text-muted);
+        font-size: 12px;
+        white-space: nowrap;
+      }
+
       .file-size {
         color: var(--xf-text-muted);
         font-size: 12px;
@@ -154,6 +203,139 @@ export class XFilesBrowser extends LitElement {
         color: var(--xf-danger);
       }
 
+      .context-menu-item.disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+
+      .context-menu-item.disabled:hover {
+        background: none;
+      }
+
+      /* Trash view */
+      .trash-location {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        color: var(--xf-text-muted);
+        font-size: 12px;
+      }
+
+      .trash-actions {
+        display: flex;
+        gap: 4px;
+      }
+
+      .trash-actions button {
+        padding: 2px 8px;
+        font-size: 12px;
+      }
+
+      /* Progress toast */
+      .toast {
+        position: fixed;
+        right: 16px;
+        bottom: 16px;
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        max-width: min(420px, 90vw);
+        background: var(--xf-bg);
+        border: 1px solid var(--xf-border);
+        border-radius: var(--xf-radius);
+        padding: 8px 12px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+        z-index: 1000;
+      }
+
+      .toast-text {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      /* Properties dialog */
+      .properties-backdrop {
+        position: fixed;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.4);
+        z-index: 1000;
+      }
+
+      .properties {
+        background: var(--xf-bg);
+        border: 1px solid var(--xf-border);
+        border-radius: var(--xf-radius);
+        padding: 12px 16px;
+        width: min(480px, 90vw);
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+      }
+
+      .properties h3 {
+        margin: 0 0 12px;
+        font-size: 14px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .properties dl {
+        display: grid;
+        grid-template-columns: max-content 1fr;
+        gap: 6px 12px;
+        margin: 0 0 12px;
+      }
+
+      .properties dt {
+        color: var(--xf-text-muted);
+      }
+
+      .properties dd {
+        margin: 0;
+        overflow-wrap: anywhere;
+        user-select: text;
+      }
+
+      .properties .checksum {
+        font-family: monospace;
+        font-size: 12px;
+      }
+
+      .properties-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .properties-row input {
+        flex: 1;
+      }
+
+      .toolbar select,
+      .properties select {
+        background: var(--xf-bg);
+        border: 1px solid var(--xf-border);
+        color: var(--xf-text);
+        border-radius: var(--xf-radius);
+        padding: 3px 4px;
+        font-size: var(--xf-font-size);
+      }
+
+      .properties .error-text {
+        color: var(--xf-danger);
+      }
+
+      .properties-actions {
+        display: flex;
+        justify-content: flex-end;
+      }
+
       .context-menu-divider {
         height: 1px;
         background: var(--xf-border);
@@ -209,10 +391,34 @@ export class XFilesBrowser extends LitElement {
   @state() private error: string | null = null;
   @state() private connected = false;
   @state() private selectedFile: FileEntry | null = null;
-  @state() private contextMenu: { x: number; y: number; file: FileEntry } | null = null;
+  @state() private contextMenu: { x: number; y: number; file: FileEntry; permissions: PathPermissions | null } | null = null;
   @state() private renaming: FileEntry | null = null;
   @state() private rootPath = '/';
   @state() private serverConfig: ServerConfig | null = null;
+  @state() private dirPermissions: PathPermissions | null = null;
+  @state() private quota: QuotaInfo | null = null;
+  @state() private trashView = false;
+  @state() private trashItems: TrashItem[] = [];
+  @state() private properties: PropertiesDialog | null = null;
+  @state() private folderSizes = new Map<string, { usage: DiskUsage; done: boolean }>();
+  @state() private measuring: AbortController | null = null;
+  @state() private sortBy: ListSortBy = 'name';
+  @state() private sortDirection: 'asc' | 'desc' = 'asc';
+  @state() private total = 0;
+  @state() private operation: RunningOperation | null = null;
+
+  // Paging
+  private cursor: string | undefined;
+  private loadedCount = 0;
+  private loadingMore = false;
+
+  // Edit leases this browser holds, by path, and their renewal timers
+  private heldLocks = new Map<string, { id: string; timer: ReturnType<typeof setInterval> }>();
+
+  // Live updates
+  private stopWatching: (() => Promise<void>) | null = null;
+  private watchedPath: string | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Mobile support
   @state() private isMobile = false;
@@ -251,6 +457,7 @@ export class XFilesBrowser extends LitElement {
 
   override disconnectedCallback() {
     super.disconnectedCallback();
+    this.stopFolderSizes();
     this.disconnect();
     document.removeEventListener('click', this.handleDocumentClick);
     document.removeEventListener('keydown', this.handleKeyDown);
@@ -311,6 +518,12 @@ export class XFilesBrowser extends LitElement {
   }
 
   disconnect() {
+    this.unwatchDirectory();
+    // The server releases the leases of a closed connection
+    for (const { timer } of this.heldLocks.values()) {
+      clearInterval(timer);
+    }
+    this.heldLocks.clear();
     if (this.client) {
       this.client.disconnect();
       this.client = null;
@@ -318,26 +531,45 @@ export class XFilesBrowser extends LitElement {
     }
   }
 
-  private async loadDirectory() {
+  private async loadDirectory(silent = false) {
     if (!this.client || !this.path) return;
 
-    this.loading = true;
+    const selectedPath = silent ? this.selectedFile?.path : undefined;
+    if (!silent) {
+      this.loading = true;
+      this.stopFolderSizes();
+      this.cursor = undefined;
+    }
     this.error = null;
     this.selectedFile = null;
 
+    const dirPath = this.path;
     try {
-      const files = await this.client.listDirectory(this.path);
+      // Live refreshes reload as many entries as were already loaded
+      const wanted = silent ? Math.max(this.loadedCount, PAGE_SIZE) : PAGE_SIZE;
+      let page = await this.client.listPage(dirPath, { limit: PAGE_SIZE, sortBy: this.sortBy, direction: this.sortDirection });
+      const entries = [...page.entries];
+      while (page.cursor && entries.length < wanted) {
+        page = await this.client.listPage(dirPath, { limit: PAGE_SIZE, cursor: page.cursor });
+        entries.push(...page.entries);
+      }
+      this.showEntries(entries, page, false);
 
-      // Sort: folders first, then alphabetically
-      this.files = files.sort((a, b) => {
-        if (a.isDirectory && !b.isDirectory) return -1;
-        if (!a.isDirectory && b.isDirectory) return 1;
-        return a.name.localeCompare(b.name);
-      });
+      // Keep the selection across live refreshes
+      if (selectedPath) {
+        this.selectedFile = this.files.find((f) => f.path === selectedPath) ?? null;
+      }
 
-      // Filter hidden files if needed
-      if (!this.showHidden) {
-        this.files = this.files.filter((f) => !f.name.startsWith('.'));
+      this.watchDirectory();
+
+      const permissions = await this.fetchPermissions(dirPath);
+      if (this.path === dirPath) {
+        this.dirPermissions = permissions;
+      }
+
+      const quota = await this.client.getQuota(dirPath).catch(() => null);
+      if (this.path === dirPath) {
+        this.quota = quota;
       }
     } catch (err) {
       this.error = err instanceof Error ? err.message : 'Failed to load directory';
@@ -346,8 +578,128 @@ export class XFilesBrowser extends LitElement {
     }
   }
 
+  /**
+   * Show fetched entries (after the ones already shown, if appending),
+   * leaving out hidden files unless showHidden is set
+   */
+  private showEntries(entries: FileEntry[], page: DirectoryPage, append: boolean) {
+    const visible = this.showHidden ? entries : entries.filter((f) => !f.name.startsWith('.'));
+    this.files = append ? [...this.files, ...visible] : visible;
+    this.loadedCount = (append ? this.loadedCount : 0) + entries.length;
+    this.total = page.total;
+    this.cursor = page.cursor;
+  }
+
+  /**
+   * Fetch the next page of the file list
+   */
+  private async loadMore() {
+    if (!this.client || !this.cursor || this.loadingMore) return;
+
+    const dirPath = this.path;
+    const cursor = this.cursor;
+    this.loadingMore = true;
+    try {
+      const page = await this.client.listPage(dirPath, { limit: PAGE_SIZE, cursor });
+      if (this.path === dirPath && this.cursor === cursor) {
+        this.showEntries(page.entries, page, true);
+      }
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to load directory';
+    } finally {
+      this.loadingMore = false;
+    }
+  }
+
+  private handleScroll(e: Event) {
+    const list = e.target as HTMLElement;
+    // Start loading a screen before the end
+    if (list.scrollHeight - list.scrollTop - list.clientHeight < list.clientHeight) {
+      this.loadMore();
+    }
+  }
+
+  override updated() {
+    // Keep loading while the loaded entries don't fill the list
+    const list = this.shadowRoot?.querySelector('.file-list');
+    if (list && this.cursor && !this.trashView && list.scrollHeight <= list.clientHeight) {
+      this.loadMore();
+    }
+  }
+
+  private setSort(sortBy: ListSortBy, direction: 'asc' | 'desc') {
+    this.sortBy = sortBy;
+    this.sortDirection = direction;
+    this.loadDirectory(true);
+  }
+
+  /**
+   * Get the effective permissions for a path, falling back to the
+   * server-wide flags if the server can't report them
+   */
+  private async fetchPermissions(path: string): Promise<PathPermissions> {
+    try {
+      return await this.client!.getPermissions(path);
+    } catch {
+      return {
+        path,
+        read: true,
+        write: !!this.serverConfig?.allowWrite,
+        delete: !!this.serverConfig?.allowDelete,
+      };
+    }
+  }
+
+  /**
+   * Subscribe to changes in the current directory so the listing refreshes itself
+   */
+  private async watchDirectory() {
+    if (!this.client || this.watchedPath === this.path) return;
+
+    this.unwatchDirectory();
+    const watchedPath = this.path;
+    this.watchedPath = watchedPath;
+
+    try {
+      const stop = await this.client.watch(watchedPath, (event) => {
+        if (event.type === 'error' && this.watchedPath === watchedPath) {
+          // The server dropped the watch; the reload subscribes again if the directory is still there
+          this.stopWatching = null;
+          this.watchedPath = null;
+        }
+        this.scheduleReload();
+      });
+      if (this.watchedPath === watchedPath) {
+        this.stopWatching = stop;
+      } else {
+        stop().catch(() => {});
+      }
+    } catch {
+      // Server without watch support: Refresh button still works
+    }
+  }
+
+  private unwatchDirectory() {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.stopWatching?.().catch(() => {});
+    this.stopWatching = null;
+    this.watchedPath = null;
+  }
+
+  private scheduleReload() {
+    if (this.reloadTimer) return;
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.loadDirectory(true);
+    }, 200);
+  }
+
   private navigateTo(path: string) {
     this.path = path;
+    this.trashView = false;
     this.loadDirectory();
     this.dispatchEvent(
       new CustomEvent('navigate', {
@@ -386,6 +738,8 @@ export class XFilesBrowser extends LitElement {
 
     if (file.isDirectory) {
       this.navigateTo(file.path);
+    } else if (this.isBrowsableArchive(file)) {
+      this.navigateTo(`${file.path}!`);
     } else {
       this.dispatchEvent(
         new CustomEvent('open', {
@@ -397,14 +751,38 @@ export class XFilesBrowser extends LitElement {
     }
   }
 
+  /**
+   * Whether a file is an archive the server can open like a folder
+   * (archives inside archives can't be opened)
+   */
+  private isBrowsableArchive(file: FileEntry): boolean {
+    return /\.(zip|tar|tgz|tar\.gz)$/i.test(file.name) && !this.isInArchive(file.path);
+  }
+
+  private isInArchive(path: string): boolean {
+    return /\.(zip|tar|tgz|tar\.gz)!(\/|$)/i.test(path);
+  }
+
   private handleContextMenu(e: MouseEvent, file: FileEntry) {
     if (this.readonly) return;
 
     e.preventDefault();
     e.stopPropagation();
 
+    this.openContextMenu(e.clientX, e.clientY, file);
+  }
+
+  /**
+   * Show the context menu, then enable actions once the file's permissions arrive
+   */
+  private async openContextMenu(x: number, y: number, file: FileEntry) {
     this.selectedFile = file;
-    this.contextMenu = { x: e.clientX, y: e.clientY, file };
+    this.contextMenu = { x, y, file, permissions: null };
+
+    const permissions = await this.fetchPermissions(file.path);
+    if (this.contextMenu?.file === file) {
+      this.contextMenu = { ...this.contextMenu, permissions };
+    }
   }
 
   // Mobile long-press handlers
@@ -416,8 +794,7 @@ export class XFilesBrowser extends LitElement {
 
     this.longPressTimer = setTimeout(() => {
       this.longPressTriggered = true;
-      this.selectedFile = file;
-      this.contextMenu = { x: touch.clientX, y: touch.clientY, file };
+      this.openContextMenu(touch.clientX, touch.clientY, file);
     }, 500); // 500ms for long press
   }
 
@@ -453,7 +830,7 @@ export class XFilesBrowser extends LitElement {
   }
 
   private async handleNewFolder() {
-    if (!this.client || !this.serverConfig?.allowWrite) return;
+    if (!this.client || !this.dirPermissions?.write) return;
 
     const name = prompt('New folder name:');
     if (!name) return;
@@ -495,19 +872,361 @@ export class XFilesBrowser extends LitElement {
   }
 
   private async handleDelete(file: FileEntry) {
-    if (!this.client || !this.serverConfig?.allowDelete) return;
+    if (!this.client || !this.contextMenu?.permissions?.delete) return;
 
-    const confirmed = confirm(`Delete "${file.name}"?`);
+    const confirmed = confirm(this.serverConfig?.trash ? `Move "${file.name}" to the trash?` : `Delete "${file.name}"?`);
     if (!confirmed) return;
+    this.contextMenu = null;
 
     try {
-      await this.client.deleteItem(file.path);
+      await this.runOperation(`Deleting ${file.name}`, (options) => this.client!.deleteItem(file.path, options));
       await this.loadDirectory();
     } catch (err) {
-      this.error = err instanceof Error ? err.message : 'Failed to delete';
+      if ((err as XFilesError).code === 'CANCELLED') {
+        // Part of the tree may be gone already
+        await this.loadDirectory();
+      } else {
+        this.error = err instanceof Error ? err.message : 'Failed to delete';
+      }
+    }
+  }
+
+  /**
+   * Take an edit lease on a file and keep renewing it until it is unlocked
+   */
+  private async handleLock(file: FileEntry) {
+    if (!this.client) return;
+    this.contextMenu = null;
+
+    try {
+      const lock = await this.client.lock(file.path, LOCK_TTL);
+      const timer = setInterval(async () => {
+        try {
+          // After a reconnect this takes a new lease
+          const renewed = await this.client?.lock(file.path, LOCK_TTL);
+          const held = this.heldLocks.get(file.path);
+          if (renewed && held) held.id = renewed.id;
+        } catch (err) {
+          this.forgetLock(file.path);
+          this.error = err instanceof Error ? err.message : 'Failed to renew lock';
+        }
+      }, LOCK_TTL / 2);
+      this.forgetLock(file.path);
+      this.heldLocks.set(file.path, { id: lock.id, timer });
+      await this.loadDirectory(true);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to lock';
+    }
+  }
+
+  private async handleUnlock(file: FileEntry) {
+    if (!this.client) return;
+    this.contextMenu = null;
+
+    this.forgetLock(file.path);
+    try {
+      await this.client.unlock(file.path);
+      await this.loadDirectory(true);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to unlock';
+    }
+  }
+
+  private forgetLock(path: string) {
+    const held = this.heldLocks.get(path);
+    if (held) {
+      clearInterval(held.timer);
+      this.heldLocks.delete(path);
+    }
+  }
+
+  private isMyLock(lock: FileLock): boolean {
+    return this.heldLocks.get(lock.path)?.id === lock.id;
+  }
+
+  private formatLockHolder(lock: FileLock): string {
+    return this.isMyLock(lock) ? 'you' : lock.holder ?? 'someone else';
+  }
+
+  /**
+   * Run a cancellable operation while the progress toast shows its running totals
+   */
+  private async runOperation<T>(label: string, run: (options: OperationOptions) => Promise<T>): Promise<T> {
+    const { controller } = (this.operation = { label, progress: null, controller: new AbortController() });
+    try {
+      return await run({
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (this.operation?.controller === controller) {
+            this.operation = { ...this.operation, progress };
+          }
+        },
+      });
+    } finally {
+      if (this.operation?.controller === controller) {
+        this.operation = null;
+      }
+    }
+  }
+
+  private renderOperation() {
+    const { label, progress, controller } = this.operation!;
+    const totals = progress
+      ? ` (${progress.items.toLocaleString()} items${progress.bytes ? `, ${this.formatSize(progress.bytes)}` : ''})`
+      : '';
+
+    return html`
+      <div class="toast">
+        <span class="loading-spinner">⏳</span>
+        <span class="toast-text" title=${progress?.path ?? label}>${label}...${totals}</span>
+        <button @click=${() => controller.abort()}>Cancel</button>
+      </div>
+    `;
+  }
+
+  private async handleDownloadZip(file: FileEntry) {
+    if (!this.client) return;
+    this.contextMenu = null;
+
+    try {
+      const blob = await new Response(this.client.downloadZip(file.path)).blob();
+      const url = URL.createObjectURL(new Blob([blob], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${file.name}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to download';
+    }
+  }
+
+  /**
+   * Measure the folders of the current directory one at a time, showing running totals in the size column
+   * (or stop the measurement if one is running)
+   */
+  private async handleFolderSizes() {
+    if (this.measuring) {
+      this.stopFolderSizes();
+      return;
+    }
+    if (!this.client) return;
+
+    const controller = new AbortController();
+    this.measuring = controller;
+    const setSize = (path: string, usage: DiskUsage, done: boolean) => {
+      if (this.measuring !== controller) return;
+      this.folderSizes = new Map(this.folderSizes).set(path, { usage, done });
+    };
+
+    try {
+      for (const file of this.files.filter((f) => f.isDirectory)) {
+        try {
+          const usage = await this.client.diskUsage(file.path, {
+            signal: controller.signal,
+            onProgress: (progress) => setSize(file.path, progress, false),
+          });
+          setSize(file.path, usage, true);
+        } catch (err) {
+          // An unreadable folder keeps its '-'; only a cancel ends the run
+          if ((err as XFilesError).code === 'CANCELLED') throw err;
+        }
+      }
+    } catch {
+      // Cancelled
+    } finally {
+      if (this.measuring === controller) {
+        this.measuring = null;
+      }
+    }
+  }
+
+  private stopFolderSizes() {
+    this.measuring?.abort();
+    this.measuring = null;
+    this.folderSizes = new Map();
+  }
+
+  private formatFolderSize(file: FileEntry): string {
+    const size = this.folderSizes.get(file.path);
+    if (!size) return '-';
+    return size.done ? this.formatSize(size.usage.bytes) : `${this.formatSize(size.usage.bytes)}…`;
+  }
+
+  private showProperties(file: FileEntry) {
+    this.contextMenu = null;
+    this.properties = { file, algorithm: 'sha256', expected: '', hashing: false, result: null, error: null };
+  }
+
+  /**
+   * Compute the checksum shown in the properties dialog, verifying it if an expected value was entered
+   */
+  private async handleHash() {
+    if (!this.client || !this.properties) return;
+
+    const properties = { ...this.properties, hashing: true, result: null, error: null };
+    this.properties = properties;
+
+    try {
+      const result = await this.client.hash(properties.file.path, properties.algorithm, properties.expected.trim() || undefined);
+      if (this.properties?.file === properties.file) {
+        this.properties = { ...this.properties, hashing: false, result };
+      }
+    } catch (err) {
+      if (this.properties?.file === properties.file) {
+        this.properties = { ...this.properties, hashing: false, error: err instanceof Error ? err.message : 'Failed to compute checksum' };
+      }
     }
+  }
+
+  private renderProperties() {
+    const { file, algorithm, expected, hashing, result, error } = this.properties!;
+    const update = (changes: Partial<PropertiesDialog>) => {
+      this.properties = { ...this.properties!, ...changes, result: null, error: null };
+    };
 
+    return html`
+      <div class="properties-backdrop" @click=${() => (this.properties = null)}>
+        <div class="properties" @click=${(e: Event) => e.stopPropagation()}>
+          <h3 title=${file.name}>ℹ️ ${file.name}</h3>
+          <dl>
+            <dt>Location</dt>
+            <dd>${file.path}</dd>
+            <dt>Type</dt>
+            <dd>${file.isDirectory ? 'Folder' : file.isFile ? 'File' : 'Other'}${file.isSymlink ? ' (symbolic link)' : ''}</dd>
+            ${file.isSymlink ? html`<dt>Link target</dt><dd>${file.linkTarget ?? '?'}</dd>` : nothing}
+            ${file.isDirectory
+              ? this.folderSizes.get(file.path)?.done
+                ? html`<dt>Size</dt><dd>${this.formatFolderUsage(this.folderSizes.get(file.path)!.usage)}</dd>`
+                : nothing
+              : html`<dt>Size</dt><dd>${this.formatSize(file.size)} (${file.size.toLocaleString()} bytes)</dd>`}
+            <dt>Modified</dt>
+            <dd>${this.formatDate(file.modified)}</dd>
+            <dt>Created</dt>
+            <dd>${this.formatDate(file.created)}</dd>
+            ${file.lock
+              ? html`<dt>Locked by</dt><dd>${this.formatLockHolder(file.lock)} (until ${this.formatDate(file.lock.expiresAt)})</dd>`
+              : nothing}
+            ${result
+              ? html`
+                  <dt>${result.algorithm}</dt>
+                  <dd class="checksum">${result.hash}</dd>
+                  ${result.matches !== undefined
+                    ? html`<dt>Verified</dt><dd>${result.matches ? '✅ Matches' : '❌ Does not match'}</dd>`
+                    : nothing}
+                `
+              : nothing}
+            ${error ? html`<dt>Checksum</dt><dd class="error-text">❌ ${error}</dd>` : nothing}
+          </dl>
+          ${file.isFile
+            ? html`
+                <div class="properties-row">
+                  <select
+                    .value=${algorithm}
+                    @change=${(e: Event) => update({ algorithm: (e.target as HTMLSelectElement).value as HashAlgorithm })}
+                  >
+                    ${(['sha256', 'sha1', 'md5', 'crc32'] as HashAlgorithm[]).map(
+                      (option) => html`<option value=${option} ?selected=${option === algorithm}>${option}</option>`
+                    )}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Expected checksum (optional)"
+                    .value=${expected}
+                    @input=${(e: Event) => update({ expected: (e.target as HTMLInputElement).value })}
+                  />
+                  <button class="primary" @click=${this.handleHash} ?disabled=${hashing}>
+                    ${hashing ? '⏳ Computing...' : expected.trim() ? 'Verify' : 'Compute'}
+                  </button>
+                </div>
+              `
+            : nothing}
+          <div class="properties-actions">
+            <button @click=${() => (this.properties = null)}>Close</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private async toggleTrash() {
+    this.trashView = !this.trashView;
     this.contextMenu = null;
+    if (this.trashView) {
+      await this.loadTrash();
+    } else {
+      await this.loadDirectory();
+    }
+  }
+
+  private async loadTrash() {
+    if (!this.client) return;
+
+    this.loading = true;
+    this.error = null;
+
+    try {
+      this.trashItems = await this.client.listTrash();
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to load trash';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private async handleRestore(item: TrashItem) {
+    if (!this.client) return;
+
+    try {
+      try {
+        await this.client.restoreFromTrash(item.id);
+      } catch (err) {
+        if ((err as XFilesError).code !== 'TARGET_EXISTS') throw err;
+        if (!confirm(`"${item.name}" already exists. Restore it as a copy?`)) return;
+        await this.client.restoreFromTrash(item.id, { conflict: 'rename' });
+      }
+      await this.loadTrash();
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to restore';
+    }
+  }
+
+  private async handlePurge(item?: TrashItem) {
+    if (!this.client) return;
+
+    const confirmed = confirm(item
+      ? `Delete "${item.name}" permanently?`
+      : 'Permanently delete everything in the trash?');
+    if (!confirmed) return;
+
+    try {
+      await this.client.purgeTrash(item?.id);
+      await this.loadTrash();
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : 'Failed to empty trash';
+    }
+  }
+
+  private renderTrash() {
+    if (this.trashItems.length === 0) {
+      return html`<div class="empty">🗑️ Trash is empty</div>`;
+    }
+
+    return this.trashItems.map(
+      (item) => html`
+        <div class="file-item">
+          <x-files-icon .name=${item.name} .isDirectory=${item.isDirectory}></x-files-icon>
+          <span class="file-name" title=${item.originalPath}>${item.name}</span>
+          <span class="trash-location" title=${item.originalPath}>${item.originalPath.replace(/[\\/][^\\/]*$/, '') || '/'}</span>
+          <span class="file-size">${item.isDirectory ? '-' : this.formatSize(item.size)}</span>
+          <span class="file-date" title="Deleted">${this.formatDate(item.deletedAt)}</span>
+          <span class="trash-actions">
+            <button @click=${() => this.handleRestore(item)} title="Restore to ${item.originalPath}">↩️ Restore</button>
+            <button @click=${() => this.handlePurge(item)} title="Delete permanently">✖</button>
+          </span>
+        </div>
+      `
+    );
   }
 
   private formatSize(bytes: number): string {
@@ -517,6 +1236,22 @@ export class XFilesBrowser extends LitElement {
     return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${units[i]}`;
   }
 
+  private formatFolderUsage(usage: DiskUsage) {
+    return `${this.formatSize(usage.bytes)} (${usage.bytes.toLocaleString()} bytes in ${usage.files.toLocaleString()} files, ${usage.directories.toLocaleString()} folders)`;
+  }
+
+  private formatUsage(quota: QuotaInfo) {
+    const parts: string[] = [];
+    if (quota.maxBytes !== undefined) {
+      const used = quota.bytes ? this.formatSize(quota.bytes) : '0 B';
+      parts.push(`${used} of ${this.formatSize(quota.maxBytes)}`);
+    }
+    if (quota.maxFiles !== undefined) {
+      parts.push(`${quota.files ?? 0} of ${quota.maxFiles} files`);
+    }
+    return parts.join(', ');
+  }
+
   private formatDate(isoDate: string): string {
     const date = new Date(isoDate);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -534,23 +1269,63 @@ export class XFilesBrowser extends LitElement {
         <button @click=${this.handleNavigateUp} title="Go up">
           ⬆️ Up
         </button>
-        <button @click=${this.handleRefresh} title="Refresh">
+        <button @click=${() => (this.trashView ? this.loadTrash() : this.handleRefresh())} title="Refresh">
           🔄 Refresh
         </button>
-        ${!this.readonly && this.serverConfig?.allowWrite
+        ${this.trashView
           ? html`
-              <button @click=${this.handleNewFolder} title="New folder">
+              <button @click=${() => this.handlePurge()} ?disabled=${this.trashItems.length === 0} title="Empty trash">
+                ✖ Empty Trash
+              </button>
+            `
+          : nothing}
+        ${!this.trashView && !this.readonly && (this.serverConfig?.allowWrite || this.dirPermissions?.write)
+          ? html`
+              <button @click=${this.handleNewFolder} title="New folder" ?disabled=${!this.dirPermissions?.write}>
                 📁 New Folder
               </button>
             `
           : nothing}
+        ${this.trashView
+          ? nothing
+          : html`
+              <button @click=${this.handleFolderSizes} title=${this.measuring ? 'Stop measuring' : 'Show the size of each folder'}>
+                ${this.measuring ? '⏹️ Stop' : '📏 Folder Sizes'}
+              </button>
+            `}
         <span class="toolbar-spacer"></span>
+        ${this.serverConfig?.trash && !this.readonly
+          ? html`
+              <button @click=${this.toggleTrash} title=${this.trashView ? 'Back to files' : 'Show deleted items'}>
+                ${this.trashView ? '📂 Files' : '🗑️ Trash'}
+              </button>
+            `
+          : nothing}
+        ${this.trashView
+          ? nothing
+          : html`
+              <select
+                title="Sort by"
+                .value=${this.sortBy}
+                @change=${(e: Event) => this.setSort((e.target as HTMLSelectElement).value as ListSortBy, this.sortDirection)}
+              >
+                ${SORT_FIELDS.map(
+                  ([value, label]) => html`<option value=${value} ?selected=${value === this.sortBy}>${label}</option>`
+                )}
+              </select>
+              <button
+                @click=${() => this.setSort(this.sortBy, this.sortDirection === 'asc' ? 'desc' : 'asc')}
+                title=${this.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                ${this.sortDirection === 'asc' ? '↑' : '↓'}
+              </button>
+            `}
         <button @click=${() => (this.showHidden = !this.showHidden)}>
           ${this.showHidden ? '👁️ Hide Hidden' : '👁️ Show Hidden'}
         </button>
       </div>
 
-      <div class="file-list">
+      <div class="file-list" @scroll=${this.handleScroll}>
         ${this.loading
           ? html`
               <div class="loading">
@@ -559,6 +1334,8 @@ export class XFilesBrowser extends LitElement {
             `
           : this.error
           ? html`<div class="error">❌ ${this.error}</div>`
+          : this.trashView
+          ? this.renderTrash()
           : this.files.length === 0
           ? html`<div class="empty">📂 Empty folder</div>`
           : this.files.map(
@@ -587,8 +1364,17 @@ export class XFilesBrowser extends LitElement {
                           autofocus
                         />
                       `
-                    : html`<span class="file-name">${file.name}</span>`}
-                  <span class="file-size">${file.isDirectory ? '-' : this.formatSize(file.size)}</span>
+                    : html`<span class="file-name" title=${file.isSymlink ? `${file.name} → ${file.linkTarget ?? '?'}` : file.name}
+                        >${file.name}${file.isSymlink
+                          ? html`<span class="link-target"> → ${file.linkTarget ?? '?'}</span>`
+                          : nothing}</span
+                      >`}
+                  ${file.lock
+                    ? html`<span class="lock-badge" title="Locked by ${this.formatLockHolder(file.lock)}"
+                        >🔒 ${this.formatLockHolder(file.lock)}</span
+                      >`
+                    : nothing}
+                  <span class="file-size">${file.isDirectory ? this.formatFolderSize(file) : this.formatSize(file.size)}</span>
                   <span class="file-date">${this.formatDate(file.modified)}</span>
                 </div>
               `
@@ -596,7 +1382,12 @@ export class XFilesBrowser extends LitElement {
       </div>
 
       <div class="status-bar">
-        <span>${this.files.length} items</span>
+        <span>
+          ${this.trashView ? this.trashItems.length : this.cursor ? `${this.files.length} of ${this.total}` : this.files.length} items
+        </span>
+        ${this.quota && (this.quota.maxBytes !== undefined || this.quota.maxFiles !== undefined)
+          ? html`<span title="Storage used in ${this.quota.root}">${this.formatUsage(this.quota)}</span>`
+          : nothing}
         <span>${this.connected ? '🟢 Connected' : '🔴 Disconnected'}</span>
       </div>
 
@@ -630,21 +1421,47 @@ export class XFilesBrowser extends LitElement {
                       📄 Open
                     </div>
                   `}
-              ${this.serverConfig?.allowWrite
+              <div class="context-menu-item" @click=${() => this.showProperties(this.contextMenu!.file)}>
+                ℹ️ Properties
+              </div>
+              ${this.isInArchive(this.contextMenu.file.path)
+                ? nothing
+                : html`
+                    <div class="context-menu-item" @click=${() => this.handleDownloadZip(this.contextMenu!.file)}>
+                      📦 Download as .zip
+                    </div>
+                  `}
+              ${this.serverConfig?.allowWrite || this.contextMenu.permissions?.write
                 ? html`
                     <div
-                      class="context-menu-item"
-                      @click=${() => this.startRename(this.contextMenu!.file)}
+                      class="context-menu-item ${this.contextMenu.permissions?.write ? '' : 'disabled'}"
+                      @click=${() => this.contextMenu!.permissions?.write && this.startRename(this.contextMenu!.file)}
                     >
                       ✏️ Rename
                     </div>
                   `
                 : nothing}
-              ${this.serverConfig?.allowDelete
+              ${this.contextMenu.file.isFile && this.contextMenu.permissions?.write && !this.isInArchive(this.contextMenu.file.path)
+                ? this.heldLocks.has(this.contextMenu.file.path)
+                  ? html`
+                      <div class="context-menu-item" @click=${() => this.handleUnlock(this.contextMenu!.file)}>
+                        🔓 Unlock
+                      </div>
+                    `
+                  : html`
+                      <div
+                        class="context-menu-item ${this.contextMenu.file.lock ? 'disabled' : ''}"
+                        @click=${() => !this.contextMenu!.file.lock && this.handleLock(this.contextMenu!.file)}
+                      >
+                        🔒 ${this.contextMenu.file.lock ? `Locked by ${this.formatLockHolder(this.contextMenu.file.lock)}` : 'Lock for Editing'}
+                      </div>
+                    `
+                : nothing}
+              ${this.serverConfig?.allowDelete || this.contextMenu.permissions?.delete
                 ? html`
                     <div class="context-menu-divider"></div>
                     <div
-                      class="context-menu-item danger"
+                      class="context-menu-item danger ${this.contextMenu.permissions?.delete ? '' : 'disabled'}"
                       @click=${() => this.handleDelete(this.contextMenu!.file)}
                     >
                       🗑️ Delete
@@ -654,6 +1471,9 @@ export class XFilesBrowser extends LitElement {
             </div>
           `
         : nothing}
+
+      ${this.properties ? this.renderProperties() : nothing}
+      ${this.operation ? this.renderOperation() : nothing}
     `;
   }
 }
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { gzipSync } from 'zlib';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { archiveFormat, openArchive } from '../dist/server/archive.js';
+import { readAll, tar, zip } from './helpers.js';
+
+const large = randomBytes(100_000).toString('base64');
+const entries = [
+  { name: 'docs/' },
+  { name: 'docs/readme.md', content: '# Hello\n' },
+  { name: 'data/large.txt', content: large },
+  { name: 'empty.txt', content: '' },
+];
+const expected = [
+  { path: 'docs', type: 'directory', size: 0, content: '' },
+  { path: 'docs/readme.md', type: 'file', size: 8, content: '# Hello\n' },
+  { path: 'data/large.txt', type: 'file', size: large.length, content: large },
+  { path: 'empty.txt', type: 'file', size: 0, content: '' },
+];
+
+describe('archives', () => {
+  it('detects formats from file names', () => {
+    assert.equal(archiveFormat('/a/B.ZIP'), 'zip');
+    assert.equal(archiveFormat('/a/b.tar'), 'tar');
+    assert.equal(archiveFormat('/a/b.tar.gz'), 'tar.gz');
+    assert.equal(archiveFormat('/a/b.tgz'), 'tar.gz');
+    assert.equal(archiveFormat('/a/b.gz'), null);
+  });
+
+  it('reads back what ZipWriter wrote', async () => {
+    const provider = new MemoryFileSystemProvider({ '/m': { 'a.zip': await zip(entries) } });
+    const archive = await openArchive(provider, '/m/a.zip', 'zip');
+
+    assert.equal(archive.totalEntries, 4);
+    assert.equal(archive.totalBytes, 8 + large.length);
+    assert.deepEqual(await readAll(archive), expected);
+  });
+
+  it('reads tar and tar.gz archives', async () => {
+    const data = tar(entries);
+    const provider = new MemoryFileSystemProvider({ '/m': { 'a.tar': data, 'a.tar.gz': gzipSync(data) } });
+
+    assert.deepEqual(await readAll(await openArchive(provider, '/m/a.tar', 'tar')), expected);
+    assert.deepEqual(await readAll(await openArchive(provider, '/m/a.tar.gz', 'tar.gz')), expected);
+  });
+
+  it('rejects tar headers with a bad checksum', async () => {
+    const data = tar([{ name: 'a.txt', content: 'a' }]);
+    data[0] ^= 1;
+    const provider = new MemoryFileSystemProvider({ '/m': { 'a.tar': data } });
+
+    await assert.rejects(readAll(await openArchive(provider, '/m/a.tar', 'tar')), /Invalid tar header checksum/);
+  });
+});
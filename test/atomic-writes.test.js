@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalFileSystemProvider, MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { sleep } from './helpers.js';
+
+describe('atomic writes', () => {
+  let root;
+  let provider;
+
+  before(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'x-files-atomic-')));
+    provider = new LocalFileSystemProvider();
+  });
+
+  after(() => fs.rm(root, { recursive: true, force: true }));
+
+  const at = (name) => path.join(root, name);
+
+  it('replaces a file, keeping its mode and leaving no temp files', async () => {
+    await fs.writeFile(at('config.ini'), 'old');
+    await fs.chmod(at('config.ini'), 0o640);
+
+    await provider.write(at('config.ini'), Buffer.from('new'));
+
+    assert.equal(await fs.readFile(at('config.ini'), 'utf8'), 'new');
+    assert.equal((await fs.stat(at('config.ini'))).mode & 0o777, 0o640);
+    assert.deepEqual(await fs.readdir(root), ['config.ini']);
+  });
+
+  it('replaces the file a symbolic link points to', async () => {
+    await fs.mkdir(at('real'));
+    await fs.writeFile(at('real/target.txt'), 'old');
+    await fs.symlink(at('real/target.txt'), at('link.txt'));
+
+    await provider.write(at('link.txt'), Buffer.from('new'));
+
+    assert.ok((await fs.lstat(at('link.txt'))).isSymbolicLink());
+    assert.equal(await fs.readFile(at('real/target.txt'), 'utf8'), 'new');
+    assert.deepEqual(await fs.readdir(at('real')), ['target.txt']);
+  });
+
+  it('cleans up its temp file when the rename fails', async () => {
+    await fs.mkdir(at('occupied'));
+    await fs.writeFile(at('occupied/keep.txt'), 'keep');
+
+    await assert.rejects(provider.write(at('occupied'), Buffer.from('file')));
+    assert.deepEqual((await fs.readdir(root)).filter((name) => name.endsWith('.tmp')), []);
+    assert.equal(await fs.readFile(at('occupied/keep.txt'), 'utf8'), 'keep');
+  });
+});
+
+describe('backups', () => {
+  it('keeps the previous content in name~', async () => {
+    const provider = new MemoryFileSystemProvider({ '/b': { 'notes.md': 'v1' } });
+    const handler = new XFilesHandler({ provider, allowedPaths: ['/b'], allowWrite: true, backups: true });
+
+    await handler.writeFile('/b/notes.md', 'v2');
+    await handler.uploadFile('/b/notes.md', 'v3');
+    await handler.writeFile('/b/new.md', 'first');
+
+    assert.equal((await provider.read('/b/notes.md')).toString(), 'v3');
+    assert.equal((await provider.read('/b/notes.md~')).toString(), 'v2');
+    // New files have nothing to back up
+    assert.deepEqual((await provider.list('/b')).map((entry) => entry.name).sort(), ['new.md', 'notes.md', 'notes.md~']);
+  });
+
+  it('keeps the newest timestamped backups', async () => {
+    const provider = new MemoryFileSystemProvider({ '/b': { 'notes.md': 'v0' } });
+    const handler = new XFilesHandler({ provider, allowedPaths: ['/b'], allowWrite: true, backups: { naming: 'timestamp', keep: 2 } });
+
+    for (const content of ['v1', 'v2', 'v3', 'v4']) {
+      await handler.writeFile('/b/notes.md', content);
+      // Backup names have millisecond timestamps
+      await sleep(5);
+    }
+
+    const backups = (await provider.list('/b')).map((entry) => entry.name).filter((name) => name !== 'notes.md').sort();
+    assert.equal(backups.length, 2);
+    for (const name of backups) {
+      assert.match(name, /^notes\.md\.\d{8}T\d{9}Z~$/);
+    }
+    assert.deepEqual(await Promise.all(backups.map(async (name) => (await provider.read(`/b/${name}`)).toString())), ['v2', 'v3']);
+  });
+
+  it('counts backups against the quota', async () => {
+    const provider = new MemoryFileSystemProvider({ '/b': { 'data.bin': '12345678' } });
+    const handler = new XFilesHandler({ provider, allowedPaths: ['/b'], allowWrite: true, backups: true, quota: { maxBytes: 12 } });
+
+    await assert.rejects(handler.writeFile('/b/data.bin', '87654321'), { code: 'QUOTA_EXCEEDED' });
+    assert.equal((await provider.read('/b/data.bin')).toString(), '12345678');
+  });
+});
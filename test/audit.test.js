@@ -0,0 +1,92 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAuditSink, MemoryAuditSink, MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+describe('audit log', () => {
+  let server;
+  let client;
+  const recent = new MemoryAuditSink({ capacity: 100 });
+  const seen = [];
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({ '/a': { 'a.txt': 'alpha' } });
+    server = await startServer({
+      provider,
+      allowedPaths: ['/a'],
+      allowWrite: true,
+      audit: [
+        recent,
+        (entry) => seen.push(entry.operation),
+        { write: () => { throw new Error('broken sink'); } },
+      ],
+      authenticate: () => ({ user: { id: 'u1', name: 'alice' } }),
+    });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  it('records every operation, denied ones included', async () => {
+    await client.readFile('/a/a.txt');
+    await client.copy('/a/a.txt', '/a/b.txt');
+    await assert.rejects(client.readFile('/elsewhere/x.txt'), /Access denied/);
+
+    const [read, copy, denied] = recent.query().slice(-3);
+    assert.deepEqual([read.operation, read.path, read.bytes, read.success], ['read', '/a/a.txt', 5, true]);
+    assert.deepEqual([copy.operation, copy.path, copy.destination, copy.success], ['copy', '/a/a.txt', '/a/b.txt', true]);
+    assert.deepEqual([denied.operation, denied.success, denied.error], ['read', false, 'Access denied: /elsewhere/x.txt']);
+    assert.deepEqual(read.user, { id: 'u1', name: 'alice' });
+    assert.ok(read.duration >= 0 && !Number.isNaN(Date.parse(read.time)));
+
+    // Callback sinks get the same entries, and a failing sink fails nothing
+    assert.deepEqual(seen.slice(-3), ['read', 'copy', 'read']);
+  });
+
+  it('queries by user, operation, path, outcome and time', async () => {
+    assert.equal(recent.query({ user: 'alice' }).length, recent.query().length);
+    assert.equal(recent.query({ user: 'someone else' }).length, 0);
+    assert.deepEqual(recent.query({ operation: 'copy' }).map((entry) => entry.operation), ['copy']);
+    assert.equal(recent.query({ path: '/a/b.txt' }).length, 1);
+    assert.equal(recent.query({ success: false }).length, 1);
+    assert.equal(recent.query({ since: Date.now() + 60_000 }).length, 0);
+    assert.equal(recent.query({ limit: 1 }).length, 1);
+  });
+
+  it('keeps only the newest entries of a memory sink', () => {
+    const sink = new MemoryAuditSink({ capacity: 2 });
+    for (const operation of ['a', 'b', 'c']) sink.write({ time: new Date().toISOString(), operation, success: true, duration: 0 });
+    assert.deepEqual(sink.query().map((entry) => entry.operation), ['b', 'c']);
+  });
+
+  describe('file sink', () => {
+    let dir;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'x-files-audit-'));
+    });
+
+    after(() => fs.rm(dir, { recursive: true, force: true }));
+
+    it('writes JSON lines and rotates full files', async () => {
+      const logPath = path.join(dir, 'audit.log');
+      const sink = new FileAuditSink({ path: logPath, maxSize: 200, maxFiles: 2 });
+
+      for (let i = 0; i < 12; i++) {
+        await sink.write({ time: new Date().toISOString(), operation: `op${i}`, path: '/a/a.txt', success: true, duration: 1 });
+      }
+
+      const files = (await fs.readdir(dir)).sort();
+      assert.deepEqual(files, ['audit.log', 'audit.log.1', 'audit.log.2']);
+
+      const lines = (await fs.readFile(logPath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+      assert.equal(lines.at(-1).operation, 'op11');
+      for (const file of files) {
+        assert.ok((await fs.stat(path.join(dir, file))).size <= 200);
+      }
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { pax, tar, zip } from './helpers.js';
+
+describe('browsing archives', () => {
+  let provider;
+  let handler;
+
+  before(async () => {
+    const entries = [{ name: 'docs/readme.md', content: '# Docs\n' }, { name: 'docs/guide/intro.md', content: 'Intro' }, { name: 'top.txt', content: 'top' }];
+    const many = Array.from({ length: 8 }, (_, i) => ({ name: `f${i}.txt`, content: '' }));
+    provider = new MemoryFileSystemProvider({
+      '/m': {
+        'a.zip': await zip(entries),
+        'a.tar': tar(entries),
+        'many.zip': await zip(many),
+        'many.tar': tar(many),
+        'bad-size.tar': tar([{ name: 'PaxHeader', type: 'x', content: pax({ size: '-5' }) }, { name: 'a.txt', content: 'a' }]),
+        'nan-size.tar': tar([{ name: 'PaxHeader', type: 'x', content: pax({ size: 'lots' }) }, { name: 'a.txt', content: 'a' }]),
+      },
+    });
+    handler = new XFilesHandler({ provider, allowedPaths: ['/m'], allowWrite: true, allowDelete: true, maxArchiveEntries: 5 });
+  });
+
+  it('lists and reads entries, with implied directories', async () => {
+    for (const archive of ['/m/a.zip', '/m/a.tar']) {
+      const root = await handler.listDirectory(`${archive}!`);
+      assert.deepEqual(root.map((entry) => [entry.name, entry.isDirectory]).sort(), [['docs', true], ['top.txt', false]]);
+
+      const docs = await handler.listDirectory(`${archive}!/docs`);
+      assert.deepEqual(docs.map((entry) => entry.path).sort(), [`${archive}!/docs/guide`, `${archive}!/docs/readme.md`]);
+
+      const { content } = await handler.readFile(`${archive}!/docs/guide/intro.md`);
+      assert.equal(content, 'Intro');
+      assert.equal((await handler.getStats(`${archive}!/top.txt`)).size, 3);
+    }
+  });
+
+  it('is read-only', async () => {
+    await assert.rejects(handler.writeFile('/m/a.zip!/top.txt', 'x'), /read-only/);
+    await assert.rejects(handler.deleteItem('/m/a.zip!/top.txt'), /read-only/);
+    assert.deepEqual(await handler.getPermissions('/m/a.zip!/top.txt'), { path: '/m/a.zip!/top.txt', read: true, write: false, delete: false });
+  });
+
+  it('refuses archives with more entries than maxArchiveEntries', async () => {
+    await assert.rejects(handler.listDirectory('/m/many.zip!'), /Too many archive entries to browse: 8 \(max: 5\)/);
+    await assert.rejects(handler.listDirectory('/m/many.tar!'), /Too many archive entries to browse: 6 \(max: 5\)/);
+  });
+
+  it('rejects pax sizes that are negative or not numbers', async () => {
+    await assert.rejects(handler.listDirectory('/m/bad-size.tar!'), /Invalid tar entry size: -5/);
+    await assert.rejects(handler.listDirectory('/m/nan-size.tar!'), /Invalid tar entry size: lots/);
+  });
+});
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { sleep, startServer } from './helpers.js';
+
+const FILES = 40;
+
+/**
+ * Memory provider with slow copies, calling a hook before each one
+ */
+class SlowProvider extends MemoryFileSystemProvider {
+  copies = 0;
+  onCopy = () => {};
+
+  async copy(source, destination) {
+    this.copies++;
+    this.onCopy(this.copies);
+    await sleep(5);
+    return super.copy(source, destination);
+  }
+}
+
+describe('cancellation', () => {
+  let provider;
+  let server;
+  let client;
+
+  before(async () => {
+    const files = Object.fromEntries(Array.from({ length: FILES }, (_, i) => [`f${i}.txt`, `${i}`]));
+    provider = new SlowProvider({ '/m': { tree: files, 'big.bin': Buffer.alloc(2 * 1024 * 1024) } });
+    // One request at a time, so the cancel request must not queue behind what it cancels
+    server = await startServer({ provider, allowedPaths: ['/m'], allowWrite: true, rateLimits: { connection: { maxConcurrent: 1 } } });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  it('stops a copy that was cancelled before it started', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(server.handler.copyItem('/m/tree', '/m/never', null, { signal: controller.signal }), { code: 'CANCELLED' });
+    assert.equal((await server.handler.exists('/m/never')).exists, false);
+  });
+
+  it('stops a running copy on the server', async () => {
+    const controller = new AbortController();
+    provider.copies = 0;
+    provider.onCopy = (count) => count === 3 && controller.abort();
+
+    await assert.rejects(client.copy('/m/tree', '/m/copy', { signal: controller.signal }), { code: 'CANCELLED' });
+    await sleep(FILES * 10);
+    provider.onCopy = () => {};
+
+    assert.ok(provider.copies < FILES, `copied ${provider.copies} of ${FILES} files`);
+    // The connection is free for the next request
+    assert.equal((await client.exists('/m/copy')).exists, true);
+  });
+
+  it('stops a streamed download when the reader cancels', async () => {
+    const sent = [];
+    const send = server.handler.send;
+    server.handler.send = function (ws, message) {
+      if (message.type === 'chunk') sent.push(message.chunk.index);
+      return send.call(this, ws, message);
+    };
+
+    try {
+      const reader = client.downloadStream('/m/big.bin', { chunkSize: 16 * 1024 }).getReader();
+      await reader.read();
+      await reader.cancel();
+      await sleep(200);
+      const count = sent.length;
+      await sleep(200);
+
+      assert.equal(sent.length, count);
+      assert.ok(count < 128, `sent ${count} of 128 chunks`);
+    } finally {
+      server.handler.send = send;
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+/**
+ * Read every match of a content search
+ */
+async function collect(stream) {
+  const matches = [];
+  for await (const match of stream) matches.push(match);
+  return matches;
+}
+
+describe('content search', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({
+      '/s': {
+        'notes.txt': 'one\ntwo\nTODO: fix this\nthree\nfour\ntodo again',
+        'code.js': 'const a = 1;\r\n// TODO remove\r\nexport default a;',
+        'image.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0, 0x54, 0x4f, 0x44, 0x4f]),
+        'big.txt': `TODO ${'x'.repeat(2000)}`,
+        sub: { 'deep.md': 'nothing\nTODO deep' },
+        '.env': 'TODO secret',
+      },
+    });
+    server = await startServer({ provider, allowedPaths: ['/s'], rules: [{ match: '**/.env', deny: '*' }] });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  it('reports matching lines with their ranges and context', async () => {
+    const matches = await collect(client.searchContent('/s', 'todo', { contextLines: 1, maxFileSize: 1000 }));
+    const byName = Object.fromEntries(matches.map((match) => [match.file.name, match]));
+
+    // Binary files, files over maxFileSize and unreadable files are skipped
+    assert.deepEqual(Object.keys(byName).sort(), ['code.js', 'deep.md', 'notes.txt']);
+
+    const [first, second] = byName['notes.txt'].matches;
+    assert.deepEqual(first, { line: 3, text: 'TODO: fix this', ranges: [{ start: 0, end: 4 }], before: ['two'], after: ['three'] });
+    assert.equal(second.line, 6);
+    assert.deepEqual(second.after, []);
+    assert.equal(byName['code.js'].matches[0].text, '// TODO remove');
+  });
+
+  it('honours case, recursion and result limits', async () => {
+    const caseSensitive = await collect(client.searchContent('/s', 'todo', { caseSensitive: true }));
+    assert.deepEqual(caseSensitive.map((match) => match.file.name), ['notes.txt']);
+
+    const flat = await collect(client.searchContent('/s', 'TODO', { recursive: false, maxFileSize: 1000 }));
+    assert.ok(!flat.some((match) => match.file.name === 'deep.md'));
+
+    const limited = await collect(client.searchContent('/s', '[a-z]', { maxResults: 1, maxMatchesPerFile: 2 }));
+    assert.equal(limited.length, 1);
+    assert.equal(limited[0].matches.length, 2);
+    assert.equal(limited[0].truncated, true);
+  });
+
+  it('finds every occurrence on a line', async () => {
+    const [match] = await collect(client.searchContent('/s', 'e', { caseSensitive: true, maxResults: 1, recursive: false }));
+    const line = match.matches[0];
+    assert.equal(line.ranges.length, [...line.text].filter((char) => char === 'e').length);
+  });
+});
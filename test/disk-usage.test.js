@@ -0,0 +1,83 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { sleep } from './helpers.js';
+
+/**
+ * Memory provider that counts (and can slow down) directory listings
+ */
+class CountingProvider extends MemoryFileSystemProvider {
+  lists = 0;
+  delay = 0;
+
+  async list(dirPath) {
+    this.lists++;
+    if (this.delay) await sleep(this.delay);
+    return super.list(dirPath);
+  }
+}
+
+describe('disk usage', () => {
+  let provider;
+  let handler;
+
+  before(() => {
+    provider = new CountingProvider({
+      '/u': {
+        'a.txt': '12345',
+        docs: { 'b.txt': '1234567890', deep: { 'c.txt': '1', 'd.txt': '22' } },
+        empty: {},
+        private: { 'secret.txt': 'x'.repeat(100) },
+      },
+    });
+    handler = new XFilesHandler({ provider, allowedPaths: ['/u'], allowWrite: true });
+  });
+
+  it('adds up files and directories below a directory', async () => {
+    assert.deepEqual(await handler.measureDiskUsage('/u/docs'), { path: '/u/docs', bytes: 13, files: 3, directories: 1 });
+    assert.deepEqual(await handler.measureDiskUsage('/u'), { path: '/u', bytes: 118, files: 5, directories: 4 });
+    await assert.rejects(handler.measureDiskUsage('/u/a.txt'), /Not a directory/);
+  });
+
+  it('answers from the cache until something below changes', async () => {
+    provider.lists = 0;
+    await handler.measureDiskUsage('/u');
+    await handler.measureDiskUsage('/u/docs/deep');
+    assert.equal(provider.lists, 0);
+
+    await handler.writeFile('/u/docs/deep/e.txt', '333');
+    assert.equal((await handler.measureDiskUsage('/u')).bytes, 121);
+    // Only the changed directory and those above it were listed again
+    assert.equal(provider.lists, 3);
+  });
+
+  it('leaves out entries hidden by access rules', async () => {
+    const ruled = new XFilesHandler({ provider, allowedPaths: ['/u'], rules: [{ match: 'private/**', deny: '*' }] });
+    assert.deepEqual(await ruled.measureDiskUsage('/u'), { path: '/u', bytes: 21, files: 5, directories: 3 });
+  });
+
+  it('reports progress and stops when cancelled', async () => {
+    const measured = new XFilesHandler({ provider, allowedPaths: ['/u'] });
+    const controller = new AbortController();
+    const progress = [];
+    provider.delay = 60;
+
+    try {
+      await assert.rejects(
+        measured.measureDiskUsage('/u', null, {
+          signal: controller.signal,
+          onProgress: (totals) => {
+            progress.push(totals);
+            controller.abort();
+          },
+        }),
+        { code: 'CANCELLED' }
+      );
+    } finally {
+      provider.delay = 0;
+    }
+
+    assert.equal(progress.length, 1);
+    assert.equal(progress[0].path, '/u');
+  });
+});
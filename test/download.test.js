@@ -0,0 +1,55 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+const content = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 251));
+
+/**
+ * Read a whole stream into one buffer
+ */
+async function collect(stream) {
+  const parts = [];
+  for await (const part of stream) parts.push(part);
+  return Buffer.concat(parts);
+}
+
+describe('streamed downloads', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({ '/d': { 'data.bin': content, 'empty.bin': '' } });
+    // Streams aren't limited by maxFileSize; each chunk is
+    server = await startServer({ provider, allowedPaths: ['/d'], maxFileSize: 300 });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  it('streams a file larger than maxFileSize in chunks', async () => {
+    const progress = [];
+    const data = await collect(client.downloadStream('/d/data.bin', { chunkSize: 256, onProgress: (received, total) => progress.push([received, total]) }));
+
+    assert.deepEqual(data, content);
+    assert.deepEqual(progress, [[256, 1000], [512, 1000], [768, 1000], [1000, 1000]]);
+  });
+
+  it('caps chunks at maxFileSize', async () => {
+    const received = [];
+    await collect(client.downloadStream('/d/data.bin', { chunkSize: 10_000, onProgress: (count) => received.push(count) }));
+    assert.deepEqual(received, [300, 600, 900, 1000]);
+  });
+
+  it('streams an inclusive byte range', async () => {
+    assert.deepEqual(await collect(client.downloadStream('/d/data.bin', { start: 100, end: 199 })), content.subarray(100, 200));
+    assert.deepEqual(await collect(client.downloadStream('/d/data.bin', { start: 990 })), content.subarray(990));
+    assert.equal((await collect(client.downloadStream('/d/empty.bin'))).length, 0);
+  });
+
+  it('rejects ranges outside the file', async () => {
+    await assert.rejects(collect(client.downloadStream('/d/data.bin', { start: 500, end: 1000 })), /Invalid range: 500-1000 \(size: 1000\)/);
+    await assert.rejects(collect(client.downloadStream('/d/data.bin', { start: -1 })), /Invalid range/);
+    await assert.rejects(collect(client.downloadStream('/d')), /Not a file/);
+  });
+});
@@ -0,0 +1,104 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { sleep, startServer, tar, zip } from './helpers.js';
+
+describe('archive extraction', () => {
+  let server;
+  let provider;
+  let client;
+
+  before(async () => {
+    provider = new MemoryFileSystemProvider({ '/m': {} });
+    server = await startServer({
+      provider,
+      allowedPaths: ['/m'],
+      allowWrite: true,
+      maxExtractSize: 10_000,
+      maxExtractEntries: 5,
+    });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  const exists = async (itemPath) => (await server.handler.exists(itemPath)).exists;
+
+  it('extracts zip and tar archives', async () => {
+    const entries = [{ name: 'docs/' }, { name: 'docs/a.txt', content: 'alpha' }, { name: 'b.txt', content: 'beta' }];
+    await provider.write('/m/in.zip', await zip(entries));
+    await provider.write('/m/in.tar', tar(entries));
+
+    for (const [archive, destination] of [['/m/in.zip', '/m/from-zip'], ['/m/in.tar', '/m/from-tar']]) {
+      const result = await client.extract(archive, destination);
+      assert.equal(result.files, 2);
+      assert.equal(result.directories, 1);
+      assert.equal(result.bytes, 9);
+      assert.equal((await provider.read(`${destination}/docs/a.txt`)).toString(), 'alpha');
+      assert.equal((await provider.read(`${destination}/b.txt`)).toString(), 'beta');
+    }
+  });
+
+  it('refuses to overwrite unless asked to', async () => {
+    await provider.write('/m/one.zip', await zip([{ name: 'a.txt', content: 'new' }]));
+    await provider.mkdir('/m/target');
+    await provider.write('/m/target/a.txt', Buffer.from('old'));
+
+    await assert.rejects(client.extract('/m/one.zip', '/m/target'), { code: 'TARGET_EXISTS' });
+    assert.equal((await provider.read('/m/target/a.txt')).toString(), 'old');
+
+    await client.extract('/m/one.zip', '/m/target', { overwrite: true });
+    assert.equal((await provider.read('/m/target/a.txt')).toString(), 'new');
+  });
+
+  it('rejects entries that would land outside the destination', async () => {
+    const escaping = [{ name: 'ok.txt', content: 'ok' }, { name: '../evil.txt', content: 'evil' }];
+    await provider.write('/m/slip.zip', await zip(escaping));
+    await provider.write('/m/slip.tar', tar(escaping));
+
+    await assert.rejects(client.extract('/m/slip.zip', '/m/slip-zip'), /outside the destination/);
+    await assert.rejects(client.extract('/m/slip.tar', '/m/slip-tar'), /outside the destination/);
+    assert.equal(await exists('/m/evil.txt'), false);
+  });
+
+  it('rejects archives over the size limit before writing them', async () => {
+    const oversized = [{ name: 'big.txt', content: 'x'.repeat(20_000) }];
+    await provider.write('/m/big.zip', await zip(oversized));
+    await provider.write('/m/big.tar', tar(oversized));
+
+    // Zip archives declare their size up front; tar entries are checked as they come
+    await assert.rejects(client.extract('/m/big.zip', '/m/big-zip'), /Archive too large/);
+    await assert.rejects(client.extract('/m/big.tar', '/m/big-tar'), /Archive too large/);
+    assert.equal(await exists('/m/big-zip/big.txt'), false);
+    assert.equal(await exists('/m/big-tar/big.txt'), false);
+  });
+
+  it('rejects archives with too many entries', async () => {
+    const many = Array.from({ length: 8 }, (_, i) => ({ name: `f${i}.txt`, content: `${i}` }));
+    await provider.write('/m/many.tar', tar(many));
+
+    await assert.rejects(client.extract('/m/many.tar', '/m/many'), /Too many archive entries/);
+  });
+
+  it('stops when cancelled, keeping the entries written so far', async () => {
+    await provider.write('/m/four.tar', tar(Array.from({ length: 4 }, (_, i) => ({ name: `f${i}.txt`, content: `${i}` }))));
+    const controller = new AbortController();
+    const createWriteStream = provider.createWriteStream;
+    let streams = 0;
+    provider.createWriteStream = async function (filePath) {
+      if (++streams === 2) controller.abort();
+      await sleep(50);
+      return createWriteStream.call(this, filePath);
+    };
+
+    try {
+      await assert.rejects(client.extract('/m/four.tar', '/m/four', { signal: controller.signal }), { code: 'CANCELLED' });
+      await sleep(100);
+    } finally {
+      provider.createWriteStream = createWriteStream;
+    }
+
+    const names = (await provider.list('/m/four')).map((entry) => entry.name);
+    assert.deepEqual(names, ['f0.txt']);
+  });
+});
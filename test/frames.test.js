@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeFrame, encodeFrame } from '../dist/shared/frames.js';
+
+const payload = new Uint8Array([0, 1, 2, 250, 255]);
+
+describe('binary frames', () => {
+  it('round-trips a client request with its content as payload', () => {
+    const frame = encodeFrame({ type: 'upload', requestId: 7, path: '/data/a.bin', content: payload }, payload);
+    const header = new TextDecoder().decode(frame.subarray(4, 4 + new DataView(frame.buffer).getUint32(0)));
+
+    assert.equal(JSON.parse(header).content, undefined);
+    const message = decodeFrame(frame);
+    assert.equal(message.type, 'upload');
+    assert.equal(message.requestId, 7);
+    assert.equal(message.path, '/data/a.bin');
+    assert.deepEqual([...message.content], [...payload]);
+  });
+
+  it('puts the payload back into result data and download chunks', () => {
+    const result = decodeFrame(encodeFrame({ type: 'result', requestId: 1, success: true, data: { content: payload, size: 5 } }, payload));
+    assert.equal(result.data.size, 5);
+    assert.deepEqual([...result.data.content], [...payload]);
+
+    const chunk = decodeFrame(encodeFrame({ type: 'chunk', requestId: 2, chunk: { index: 3, content: payload } }, payload));
+    assert.equal(chunk.chunk.index, 3);
+    assert.deepEqual([...chunk.chunk.content], [...payload]);
+  });
+
+  it('keeps Buffer payloads out of the header', () => {
+    const content = Buffer.alloc(1000, 7);
+    const frame = encodeFrame({ type: 'result', requestId: 6, success: true, data: { content, size: 1000 } }, content);
+    const headerLength = new DataView(frame.buffer).getUint32(0);
+
+    assert.ok(headerLength < 100, `header is ${headerLength} bytes`);
+    assert.equal(frame.length, 4 + headerLength + 1000);
+    assert.deepEqual(Buffer.from(decodeFrame(frame).data.content), content);
+  });
+
+  it('decodes frames that are views into a larger buffer', () => {
+    const frame = encodeFrame({ type: 'upload', requestId: 3, content: payload }, payload);
+    const backing = new Uint8Array(frame.length + 16);
+    backing.set(frame, 8);
+
+    const message = decodeFrame(backing.subarray(8, 8 + frame.length));
+    assert.equal(message.requestId, 3);
+    assert.deepEqual([...message.content], [...payload]);
+  });
+
+  it('keeps empty payloads', () => {
+    const message = decodeFrame(encodeFrame({ type: 'upload', requestId: 4, content: new Uint8Array(0) }, new Uint8Array(0)));
+    assert.equal(message.content.length, 0);
+  });
+
+  it('rejects truncated frames', () => {
+    assert.throws(() => decodeFrame(new Uint8Array([0, 0])), /Invalid binary frame/);
+
+    const frame = encodeFrame({ type: 'upload', requestId: 5, content: payload }, payload);
+    new DataView(frame.buffer).setUint32(0, frame.length);
+    assert.throws(() => decodeFrame(frame), /Invalid binary frame/);
+  });
+});
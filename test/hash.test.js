@@ -0,0 +1,49 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { zip } from './helpers.js';
+
+describe('file hashes', () => {
+  const content = Buffer.from('The quick brown fox jumps over the lazy dog');
+  let handler;
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({
+      '/h': { 'fox.txt': content, 'big.bin': Buffer.alloc(50_000, 1), 'a.zip': await zip([{ name: 'fox.txt', content: content.toString() }]), dir: {} },
+    });
+    // Hashing streams the file, so it isn't limited by maxFileSize
+    handler = new XFilesHandler({ provider, allowedPaths: ['/h'], maxFileSize: 1000 });
+  });
+
+  it('computes every supported algorithm', async () => {
+    for (const algorithm of ['sha256', 'sha1', 'md5']) {
+      const result = await handler.hashFile('/h/fox.txt', algorithm);
+      assert.deepEqual(result, { path: '/h/fox.txt', algorithm, hash: createHash(algorithm).update(content).digest('hex'), size: content.length });
+    }
+    assert.equal((await handler.hashFile('/h/fox.txt', 'crc32')).hash, '414fa339');
+  });
+
+  it('streams files larger than maxFileSize', async () => {
+    const result = await handler.hashFile('/h/big.bin');
+    assert.equal(result.size, 50_000);
+    assert.equal(result.hash, createHash('sha256').update(Buffer.alloc(50_000, 1)).digest('hex'));
+  });
+
+  it('verifies an expected hash, ignoring case and whitespace', async () => {
+    const { hash } = await handler.hashFile('/h/fox.txt');
+
+    assert.equal((await handler.hashFile('/h/fox.txt', 'sha256', ` ${hash.toUpperCase()}\n`)).matches, true);
+    assert.equal((await handler.hashFile('/h/fox.txt', 'sha256', '00')).matches, false);
+    assert.equal('matches' in (await handler.hashFile('/h/fox.txt')), false);
+  });
+
+  it('hashes files inside archives', async () => {
+    assert.equal((await handler.hashFile('/h/a.zip!/fox.txt', 'crc32')).hash, '414fa339');
+  });
+
+  it('rejects directories and unknown algorithms', async () => {
+    await assert.rejects(handler.hashFile('/h/dir'), /Not a file/);
+    await assert.rejects(handler.hashFile('/h/fox.txt', 'sha3'), /Unsupported hash algorithm: sha3/);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Shared helpers for the x-files.js tests (run against the build in dist/)
+ */
+
+import { once } from 'events';
+import { WebSocket, WebSocketServer } from 'ws';
+import { XFilesHandler } from '../dist/server/index.js';
+import { XFilesClient } from '../dist/client/index.js';
+import { ZipWriter } from '../dist/server/zip.js';
+
+// Node 20 has no global WebSocket; the client expects one
+globalThis.WebSocket ??= WebSocket;
+
+/**
+ * Start a handler behind a WebSocket server on a free port;
+ * `connect(options)` opens a client with extra XFilesClient options
+ */
+export async function startServer(config) {
+  const handler = new XFilesHandler(config);
+  const wss = new WebSocketServer({ port: 0 });
+  wss.on('connection', (ws, req) => handler.handleConnection(ws, req));
+  await once(wss, 'listening');
+
+  const url = `ws://localhost:${wss.address().port}`;
+  const clients = [];
+
+  return {
+    handler,
+    async connect(options = {}) {
+      const client = new XFilesClient({ url, autoReconnect: false, ...options });
+      await client.connect();
+      clients.push(client);
+      return client;
+    },
+    async close() {
+      for (const client of clients) client.disconnect();
+      handler.closeAll();
+      await new Promise((resolve) => wss.close(resolve));
+    },
+  };
+}
+
+/**
+ * Build a zip archive in memory
+ * @param entries `{ name, content }` for files, `{ name }` ending in '/' for directories
+ */
+export async function zip(entries) {
+  const parts = [];
+  const writer = new ZipWriter((data) => { parts.push(data); });
+  const modified = new Date('2026-01-02T03:04:06Z');
+
+  for (const { name, content } of entries) {
+    if (name.endsWith('/')) {
+      await writer.addDirectory(name, modified);
+    } else {
+      const data = Buffer.from(content);
+      await writer.addFile(name, modified, data.length, (async function* () { yield data; })());
+    }
+  }
+  await writer.finish();
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build a ustar archive in memory
+ * @param entries `{ name, content }` for files, `{ name }` ending in '/' for directories;
+ *   `type` sets another type flag (e.g. 'x' for a pax header)
+ */
+export function tar(entries) {
+  const blocks = [];
+
+  for (const { name, content = '', type = name.endsWith('/') ? '5' : '0' } of entries) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write(`${Math.floor(Date.UTC(2026, 0, 2) / 1000).toString(8).padStart(11, '0')}\0`, 136);
+    header.write(type, 156);
+    header.write('ustar\0' + '00', 257);
+
+    header.fill(' ', 148, 156);
+    const sum = header.reduce((total, byte) => total + byte, 0);
+    header.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148);
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Content of a pax extended header with the given records
+ */
+export function pax(records) {
+  return Object.entries(records).map(([key, value]) => {
+    const body = ` ${key}=${value}\n`;
+    let length = body.length + 1;
+    while (`${length}${body}`.length !== length) length++;
+    return `${length}${body}`;
+  }).join('');
+}
+
+/**
+ * Read every entry of an opened archive, with file contents as strings
+ */
+export async function readAll(archive) {
+  const items = [];
+  for await (const { entry, content } of archive.items()) {
+    const parts = [];
+    for await (const data of content()) parts.push(data);
+    items.push({ path: entry.path, type: entry.type, size: entry.size, content: Buffer.concat(parts).toString() });
+  }
+  return items;
+}
+
+export const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+describe('paged listings', () => {
+  const names = Array.from({ length: 250 }, (_, i) => `file${String(i).padStart(3, '0')}.txt`);
+  let provider;
+  let handler;
+
+  before(async () => {
+    let time = Date.UTC(2026, 0, 1);
+    provider = new MemoryFileSystemProvider({}, { now: () => new Date(time) });
+    await provider.mkdir('/big/dir-b', { recursive: true });
+    await provider.mkdir('/big/dir-a');
+    for (const [i, name] of names.entries()) {
+      time += 1000;
+      // Sizes run opposite to names, and every file is newer than the one before
+      await provider.write(`/big/${name}`, Buffer.alloc(names.length - i, 'x'));
+    }
+    for (const [name, content] of [['notes.md', 'md'], ['archive.zip', 'zip'], ['.secret', 'hidden']]) {
+      time += 1000;
+      await provider.write(`/big/${name}`, content);
+    }
+    handler = new XFilesHandler({ provider, allowedPaths: ['/big'], rules: [{ match: '.secret', deny: '*' }] });
+  });
+
+  const namesOf = (page) => page.entries.map((entry) => entry.name);
+
+  it('pages by offset with directories first and a total count', async () => {
+    const first = await handler.listPage('/big', { limit: 4 });
+    assert.deepEqual(namesOf(first), ['dir-a', 'dir-b', 'archive.zip', 'file000.txt']);
+    assert.equal(first.total, 254);
+    assert.equal(first.offset, 0);
+
+    const later = await handler.listPage('/big', { offset: 250, limit: 10 });
+    assert.deepEqual(namesOf(later), ['file247.txt', 'file248.txt', 'file249.txt', 'notes.md']);
+    assert.equal(later.offset, 250);
+    assert.equal(later.cursor, undefined);
+  });
+
+  it('sorts by size, modification time and type, keeping directories first', async () => {
+    const bySize = await handler.listPage('/big', { sortBy: 'size', limit: 5 });
+    assert.deepEqual(namesOf(bySize), ['dir-a', 'dir-b', 'file249.txt', 'file248.txt', 'notes.md']);
+
+    const newest = await handler.listPage('/big', { sortBy: 'modified', direction: 'desc', limit: 4 });
+    assert.deepEqual(namesOf(newest), ['dir-b', 'dir-a', 'archive.zip', 'notes.md']);
+
+    const byType = await handler.listPage('/big', { sortBy: 'type', limit: 4 });
+    assert.deepEqual(namesOf(byType), ['dir-a', 'dir-b', 'notes.md', 'file000.txt']);
+  });
+
+  it('walks the whole directory by cursor, even when it changes between pages', async () => {
+    const seen = [];
+    let page = await handler.listPage('/big', { limit: 100, sortBy: 'name', direction: 'desc' });
+    seen.push(...namesOf(page));
+
+    // Entries added before the cursor position don't shift the pages after it
+    await provider.write('/big/zzz.txt', 'new');
+    while (page.cursor) {
+      page = await handler.listPage('/big', { cursor: page.cursor, limit: 100 });
+      seen.push(...namesOf(page));
+    }
+    await provider.rm('/big/zzz.txt');
+
+    assert.equal(seen.length, 254);
+    assert.equal(new Set(seen).size, 254);
+    assert.deepEqual(seen.slice(0, 4), ['dir-b', 'dir-a', 'notes.md', 'file249.txt']);
+    assert.deepEqual(seen.slice(-2), ['file000.txt', 'archive.zip']);
+  });
+
+  it('limits page sizes and rejects bad options', async () => {
+    assert.equal((await handler.listPage('/big', { limit: 0 })).entries.length, 1);
+    assert.equal((await handler.listPage('/big', { limit: 5000 })).entries.length, 254);
+
+    await assert.rejects(handler.listPage('/big', { sortBy: 'owner' }), /Unsupported sort field: owner/);
+    await assert.rejects(handler.listPage('/big', { direction: 'up' }), /Unsupported sort direction: up/);
+    await assert.rejects(handler.listPage('/big', { cursor: 'not-a-cursor' }), /Invalid cursor/);
+  });
+
+  describe('over the connection', () => {
+    let server;
+    let client;
+
+    before(async () => {
+      server = await startServer({ provider, allowedPaths: ['/big'] });
+      client = await server.connect();
+    });
+
+    after(() => server.close());
+
+    it('returns pages to listPage and whole directories to listDirectory', async () => {
+      const page = await client.listPage('/big', { limit: 3, sortBy: 'size', direction: 'desc' });
+      assert.deepEqual(namesOf(page), ['dir-b', 'dir-a', 'file000.txt']);
+      assert.ok(page.cursor);
+
+      assert.equal((await client.listDirectory('/big')).length, 255);
+    });
+  });
+});
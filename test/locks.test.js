@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { XFilesHandler } from '../dist/server/index.js';
+import { sleep, startServer } from './helpers.js';
+
+describe('edit locks', () => {
+  let root;
+  let handler;
+  const alice = {};
+  const bob = {};
+
+  before(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'x-files-locks-')));
+    handler = new XFilesHandler({ allowedPaths: [root], allowWrite: true, allowDelete: true });
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  const file = (name, content = name) => {
+    const filePath = path.join(root, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('blocks changes by others and lets the holder through', async () => {
+    const notes = file('notes.md');
+    const lock = await handler.lockPath(alice, notes);
+    assert.equal(lock.path, notes);
+
+    await assert.rejects(handler.writeFile(notes, 'bob', 'utf-8', null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.deleteItem(notes, null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.renameItem(notes, path.join(root, 'moved.md'), null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.lockPath(bob, notes), { code: 'LOCKED' });
+    assert.equal(fs.readFileSync(notes, 'utf-8'), 'notes.md');
+
+    await handler.writeFile(notes, 'alice', 'utf-8', null, { lockOwner: alice });
+    assert.equal(fs.readFileSync(notes, 'utf-8'), 'alice');
+
+    assert.deepEqual(await handler.unlockPath(alice, notes), { unlocked: true });
+    await handler.writeFile(notes, 'bob', 'utf-8', null, { lockOwner: bob });
+    assert.equal(fs.readFileSync(notes, 'utf-8'), 'bob');
+  });
+
+  it('protects leased files inside directories and copy targets', async () => {
+    const leased = file('dir/leased.txt');
+    const source = file('source.txt');
+    await handler.lockPath(alice, leased);
+
+    await assert.rejects(handler.deleteItem(path.join(root, 'dir'), null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.renameItem(path.join(root, 'dir'), path.join(root, 'dir2'), null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.copyItem(source, leased, null, { lockOwner: bob }), { code: 'LOCKED' });
+    assert.equal(fs.readFileSync(leased, 'utf-8'), 'dir/leased.txt');
+
+    await handler.copyItem(source, leased, null, { lockOwner: alice });
+    assert.equal(fs.readFileSync(leased, 'utf-8'), 'source.txt');
+    await handler.unlockPath(alice, leased);
+  });
+
+  it('applies to every symbolic link to a leased file', async () => {
+    const target = file('target.txt');
+    const alias = path.join(root, 'alias.txt');
+    fs.symlinkSync(target, alias);
+    await handler.lockPath(alice, target);
+
+    await assert.rejects(handler.writeFile(alias, 'bob', 'utf-8', null, { lockOwner: bob }), { code: 'LOCKED' });
+    await assert.rejects(handler.lockPath(bob, alias), { code: 'LOCKED' });
+    assert.equal((await handler.getStats(alias)).lock?.path, target);
+
+    await handler.writeFile(alias, 'alice', 'utf-8', null, { lockOwner: alice });
+    assert.equal(fs.readFileSync(target, 'utf-8'), 'alice');
+    assert.equal(fs.lstatSync(alias).isSymbolicLink(), true);
+    await handler.unlockPath(alice, alias);
+  });
+
+  it('ends leases when their TTL runs out', async () => {
+    const brief = file('brief.txt');
+    await handler.lockPath(alice, brief, 50);
+    await sleep(100);
+
+    assert.equal((await handler.getStats(brief)).lock, undefined);
+    await handler.writeFile(brief, 'bob', 'utf-8', null, { lockOwner: bob });
+  });
+
+  it('ends leases when the connection holding them closes', async () => {
+    const shared = file('shared.txt');
+    const server = await startServer({ allowedPaths: [root], allowWrite: true });
+    try {
+      const first = await server.connect();
+      const second = await server.connect();
+      await first.lock(shared);
+
+      await assert.rejects(second.writeFile(shared, 'second'), { code: 'LOCKED' });
+
+      first.disconnect();
+      while (server.handler.getConnectionCount() > 1) await sleep(10);
+      await second.writeFile(shared, 'second');
+      assert.equal(fs.readFileSync(shared, 'utf-8'), 'second');
+    } finally {
+      await server.close();
+    }
+  });
+});
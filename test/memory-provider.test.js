@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+
+/**
+ * Collect everything an async iterable yields into one buffer
+ */
+async function collect(iterable) {
+  const parts = [];
+  for await (const part of iterable) parts.push(part);
+  return Buffer.concat(parts);
+}
+
+describe('memory provider', () => {
+  it('is seeded from a tree of strings, bytes and objects', async () => {
+    const provider = new MemoryFileSystemProvider({
+      '/data': { 'a.txt': 'alpha', 'b.bin': new Uint8Array([1, 2, 3]), sub: { deep: {} } },
+      '/other/file.txt': 'other',
+    });
+
+    const entries = (await provider.list('/data')).map(({ name, isFile, isDirectory }) => [name, isFile, isDirectory]);
+    assert.deepEqual(entries.sort(), [['a.txt', true, false], ['b.bin', true, false], ['sub', false, true]]);
+    assert.deepEqual([...(await provider.read('/data/b.bin'))], [1, 2, 3]);
+    assert.equal((await provider.read('/other/file.txt')).toString(), 'other');
+    assert.equal((await provider.stat('/data/sub/deep')).isDirectory, true);
+  });
+
+  it('fails like fs, with the same error codes', async () => {
+    const provider = new MemoryFileSystemProvider({ '/data': { 'a.txt': 'a', dir: { 'b.txt': 'b' } } });
+
+    await assert.rejects(provider.stat('/data/missing'), { code: 'ENOENT', syscall: 'stat', path: '/data/missing' });
+    await assert.rejects(provider.list('/data/a.txt'), { code: 'ENOTDIR' });
+    await assert.rejects(provider.read('/data/dir'), { code: 'EISDIR' });
+    await assert.rejects(provider.write('/data/missing/a.txt', Buffer.from('x')), { code: 'ENOENT' });
+    await assert.rejects(provider.mkdir('/data/dir'), { code: 'EEXIST' });
+    await assert.rejects(provider.rm('/data/dir'), { code: 'EISDIR' });
+    await assert.rejects(provider.rename('/data/dir', '/data/dir/inside'), { code: 'EINVAL' });
+    await assert.rejects(provider.rename('/data/a.txt', '/data/dir'), { code: 'EISDIR' });
+    await assert.rejects(provider.createWriteStream('/data/a.txt'), { code: 'EEXIST' });
+    await provider.rm('/data/missing', { force: true });
+  });
+
+  it('creates, moves, copies and removes entries', async () => {
+    const provider = new MemoryFileSystemProvider({ '/data': { dir: { 'b.txt': 'b' } } });
+
+    await provider.mkdir('/data/x/y/z', { recursive: true });
+    await provider.mkdir('/data/x', { recursive: true });
+    await provider.rename('/data/dir', '/data/x/moved');
+    await provider.copy('/data/x/moved/b.txt', '/data/c.txt');
+    await provider.write('/data/c.txt', Buffer.from('changed'));
+
+    assert.equal((await provider.read('/data/x/moved/b.txt')).toString(), 'b');
+    assert.equal((await provider.read('/data/c.txt')).toString(), 'changed');
+    await assert.rejects(provider.stat('/data/dir'), { code: 'ENOENT' });
+
+    await provider.rm('/data/x', { recursive: true });
+    assert.deepEqual((await provider.list('/data')).map((entry) => entry.name), ['c.txt']);
+  });
+
+  it('streams file content in ranges and writes it in parts', async () => {
+    const provider = new MemoryFileSystemProvider({ '/data': { 'a.txt': '0123456789' } });
+
+    assert.equal((await collect(provider.createReadStream('/data/a.txt', { start: 2, end: 5, chunkSize: 3 }))).toString(), '2345');
+    const chunks = [];
+    for await (const chunk of provider.createReadStream('/data/a.txt', { chunkSize: 4 })) chunks.push(chunk.toString());
+    assert.deepEqual(chunks, ['0123', '4567', '89']);
+
+    const writer = await provider.createWriteStream('/data/b.txt');
+    await writer.write(Buffer.from('ab'));
+    await writer.write(Buffer.from('cd'));
+    await writer.close();
+    assert.equal((await provider.read('/data/b.txt')).toString(), 'abcd');
+  });
+
+  it('stamps entries with the given clock and numbers them', async () => {
+    let time = Date.UTC(2026, 0, 1);
+    const provider = new MemoryFileSystemProvider({ '/data': {} }, { now: () => new Date(time) });
+
+    await provider.write('/data/a.txt', Buffer.from('a'));
+    time += 1000;
+    await provider.write('/data/a.txt', Buffer.from('b'));
+    await provider.write('/data/b.txt', Buffer.from('b'));
+
+    const a = await provider.stat('/data/a.txt');
+    const b = await provider.stat('/data/b.txt');
+    assert.equal(a.birthtime.getTime(), Date.UTC(2026, 0, 1));
+    assert.equal(a.mtime.getTime(), Date.UTC(2026, 0, 1) + 1000);
+    assert.notEqual(a.ino, b.ino);
+  });
+
+  it('tells watchers about changes, and fails them when their directory goes away', async () => {
+    const provider = new MemoryFileSystemProvider({ '/data': { dir: { sub: {} } } });
+    const flat = [];
+    const recursive = [];
+    const errors = [];
+
+    const watcher = provider.watch('/data/dir', {}, (name) => flat.push(name), (error) => errors.push(error.code));
+    provider.watch('/data/dir', { recursive: true }, (name) => recursive.push(name), () => {});
+
+    await provider.write('/data/dir/a.txt', Buffer.from('a'));
+    await provider.write('/data/dir/sub/b.txt', Buffer.from('b'));
+    await provider.write('/data/elsewhere.txt', Buffer.from('c'));
+    assert.deepEqual(flat, ['a.txt']);
+    assert.deepEqual(recursive, ['a.txt', 'sub/b.txt']);
+
+    await provider.rm('/data/dir', { recursive: true });
+    assert.deepEqual(errors, ['ENOENT']);
+    watcher.close();
+  });
+});
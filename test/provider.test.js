@@ -0,0 +1,80 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalFileSystemProvider, MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { isWithin } from '../dist/server/paths.js';
+
+/**
+ * Wrap a provider so every call it gets is recorded as 'method path'
+ */
+function recording(provider, calls) {
+  return new Proxy(provider, {
+    get(target, key) {
+      const value = target[key];
+      if (typeof value !== 'function') return value;
+      return (...args) => {
+        calls.push(`${String(key)} ${args[0]}`);
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+describe('storage providers', () => {
+  it('sends every file system access through the configured provider', async () => {
+    const calls = [];
+    const provider = recording(new MemoryFileSystemProvider({ '/virtual': { 'a.txt': 'a' } }), calls);
+    const handler = new XFilesHandler({ provider, allowedPaths: ['/virtual'], allowWrite: true, allowDelete: true });
+
+    await handler.writeFile('/virtual/b.txt', 'b');
+    await handler.renameItem('/virtual/b.txt', '/virtual/c.txt');
+    await handler.copyItem('/virtual/c.txt', '/virtual/d.txt');
+    await handler.deleteItem('/virtual/a.txt');
+
+    const names = (await handler.listDirectory('/virtual')).map((entry) => entry.name).sort();
+    assert.deepEqual(names, ['c.txt', 'd.txt']);
+    assert.equal((await handler.readFile('/virtual/d.txt')).content, 'b');
+    for (const method of ['write', 'rename', 'copy', 'rm', 'list', 'read']) {
+      assert.ok(calls.some((call) => call.startsWith(`${method} /virtual`)), `no ${method} call`);
+    }
+
+    // Nothing of it reached the disk
+    await assert.rejects(fs.stat('/virtual'), { code: 'ENOENT' });
+  });
+
+  describe('the local provider', () => {
+    let root;
+    let handler;
+
+    before(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'x-files-'));
+      handler = new XFilesHandler({ provider: new LocalFileSystemProvider(), allowedPaths: [root], allowWrite: true, allowDelete: true });
+    });
+
+    after(() => fs.rm(root, { recursive: true, force: true }));
+
+    it('reads and writes the local disk', async () => {
+      await handler.createDirectory(path.join(root, 'dir'));
+      await handler.writeFile(path.join(root, 'dir', 'a.txt'), 'on disk');
+
+      assert.equal(await fs.readFile(path.join(root, 'dir', 'a.txt'), 'utf8'), 'on disk');
+      assert.deepEqual((await handler.listDirectory(path.join(root, 'dir'))).map((entry) => entry.name), ['a.txt']);
+    });
+
+    it('is the default', async () => {
+      const fallback = new XFilesHandler({ allowedPaths: [root] });
+      assert.equal((await fallback.readFile(path.join(root, 'dir', 'a.txt'))).content, 'on disk');
+    });
+  });
+
+  it('only counts paths inside a directory on a segment boundary', () => {
+    assert.equal(isWithin('/home/user/a.txt', '/home/user'), true);
+    assert.equal(isWithin('/home/user', '/home/user'), true);
+    assert.equal(isWithin('/home/user/', '/home/user'), true);
+    assert.equal(isWithin('/home/user2', '/home/user'), false);
+    assert.equal(isWithin('/home/user/../other', '/home/user'), false);
+    assert.equal(isWithin('/home', '/home/user'), false);
+  });
+});
@@ -0,0 +1,71 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+describe('storage quotas', () => {
+  let provider;
+  let server;
+  let handler;
+
+  before(async () => {
+    provider = new MemoryFileSystemProvider({ '/q': { 'a.txt': '12345' } });
+    server = await startServer({ provider, allowedPaths: ['/q'], allowWrite: true, allowDelete: true, quota: { maxBytes: 10, maxFiles: 3 } });
+    handler = server.handler;
+  });
+
+  after(() => server.close());
+
+  it('reports usage of the root against its quota', async () => {
+    assert.deepEqual(await handler.getQuota('/q/a.txt'), { root: '/q', bytes: 5, files: 1, maxBytes: 10, maxFiles: 3 });
+  });
+
+  it('refuses writes over the limits and keeps tracking usage', async () => {
+    await assert.rejects(handler.writeFile('/q/b.txt', '123456'), { code: 'QUOTA_EXCEEDED', message: 'Quota exceeded: 11 bytes (max: 10)' });
+    await handler.writeFile('/q/b.txt', '12345');
+    await assert.rejects(handler.createDirectory('/q/dir/sub'), { code: 'QUOTA_EXCEEDED', message: 'Quota exceeded: 4 files (max: 3)' });
+    assert.equal((await handler.exists('/q/dir')).exists, false);
+
+    // Smaller overwrites and deletes are always allowed
+    await handler.writeFile('/q/a.txt', '1');
+    await handler.deleteItem('/q/b.txt');
+    assert.deepEqual(await handler.getQuota('/q'), { root: '/q', bytes: 1, files: 1, maxBytes: 10, maxFiles: 3 });
+  });
+
+  it('rescans usage after resetUsage', async () => {
+    await provider.write('/q/outside.txt', Buffer.from('1234'));
+    handler.resetUsage('/q');
+    assert.equal((await handler.getQuota('/q')).bytes, 5);
+  });
+});
+
+describe('quotas with sessions', () => {
+  let server;
+  const sessions = [];
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({ '/home': { alice: {}, bob: {} } });
+    server = await startServer({ provider, allowWrite: true, authenticate: () => sessions.shift() });
+  });
+
+  after(() => server.close());
+
+  function connect(session) {
+    sessions.push(session);
+    return server.connect();
+  }
+
+  it('refuses users with quotas on a shared root', async () => {
+    const quota = { maxBytes: 100 };
+    await connect({ user: { id: 'alice' }, allowedPaths: ['/home/alice'], quota });
+
+    await assert.rejects(connect({ user: { id: 'bob' }, allowedPaths: ['/home'], quota }), /Quota root shared with another user/);
+    await assert.rejects(connect({ user: { id: 'bob' }, allowedPaths: ['/home/alice/shared'], quota }), /Quota root shared with another user/);
+
+    // Separate roots, another connection of the same user and sessions without a quota are fine
+    const bob = await connect({ user: { id: 'bob' }, allowedPaths: ['/home/bob'], quota });
+    await bob.writeFile('/home/bob/a.txt', 'a');
+    await connect({ user: { id: 'alice' }, allowedPaths: ['/home/alice'], quota });
+    await connect({ user: { id: 'admin' }, allowedPaths: ['/home'] });
+  });
+});
@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { sleep, startServer } from './helpers.js';
+
+describe('rate limits', () => {
+  let server;
+  const sessions = [];
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({ '/r': { 'a.txt': '12345' } });
+    server = await startServer({
+      provider,
+      allowedPaths: ['/r'],
+      rateLimits: {
+        connection: { operationsPerSecond: 3 },
+        user: { operationsPerSecond: 4, bytesPerMinute: 8 },
+      },
+      authenticate: () => sessions.shift() ?? true,
+    });
+  });
+
+  after(() => server.close());
+
+  function connect(session, options = { rateLimitRetries: 0 }) {
+    sessions.push(session);
+    return server.connect(options);
+  }
+
+  it('refuses operations over the connection limit with a retry hint', async () => {
+    const client = await connect(true);
+
+    for (let i = 0; i < 3; i++) await client.exists('/r/a.txt');
+    const error = await client.exists('/r/a.txt').catch((error) => error);
+
+    assert.equal(error.code, 'RATE_LIMITED');
+    assert.ok(error.retryAfter > 0 && error.retryAfter <= 1000, `retryAfter ${error.retryAfter}`);
+  });
+
+  it('never limits cancel and unwatch requests', async () => {
+    const client = await connect(true);
+
+    for (let i = 0; i < 3; i++) await client.exists('/r/a.txt');
+    await client.request('cancel', { target: 12345 });
+    await client.request('unwatch', { watchId: 12345 }).catch((error) => assert.notEqual(error.code, 'RATE_LIMITED'));
+  });
+
+  it('waits and retries in the client', async () => {
+    const client = await connect(true, {});
+    const started = Date.now();
+
+    for (let i = 0; i < 5; i++) await client.exists('/r/a.txt');
+    assert.ok(Date.now() - started >= 300, 'did not wait');
+  });
+
+  it('shares the user limits between connections of the same user', async () => {
+    const first = await connect({ user: { id: 'u1' } });
+    const second = await connect({ user: { id: 'u1' } });
+    const other = await connect({ user: { id: 'u2' } });
+
+    await first.exists('/r/a.txt');
+    await first.exists('/r/a.txt');
+    await second.exists('/r/a.txt');
+    await second.exists('/r/a.txt');
+    await assert.rejects(second.exists('/r/a.txt'), { code: 'RATE_LIMITED' });
+    await other.exists('/r/a.txt');
+  });
+
+  it('limits the bytes a user transfers', async () => {
+    await sleep(1000);
+    const client = await connect({ user: { id: 'reader' } });
+
+    // The transfer that overdraws the budget still completes; the next one waits
+    await client.readFile('/r/a.txt');
+    await client.readFile('/r/a.txt');
+    await assert.rejects(client.readFile('/r/a.txt'), { code: 'RATE_LIMITED' });
+  });
+
+  it('forgets the budget of users who left once it has refilled', async () => {
+    const client = await connect({ user: { id: 'brief' } });
+    await client.exists('/r/a.txt');
+    const limiters = server.handler['userLimiters'];
+    assert.ok(limiters.has('brief'));
+
+    client.disconnect();
+    await sleep(50);
+    // Spent budget is kept, so reconnecting doesn't reset it
+    assert.ok(limiters.has('brief'));
+
+    await sleep(1000);
+    await connect({ user: { id: 'brief' } }).then((again) => again.disconnect());
+    await sleep(50);
+    assert.equal(limiters.has('brief'), false);
+  });
+});
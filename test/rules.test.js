@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { startServer, zip } from './helpers.js';
+
+describe('access rules', () => {
+  let handler;
+
+  before(() => {
+    const provider = new MemoryFileSystemProvider({
+      '/r': {
+        docs: { 'a.md': 'a' },
+        uploads: { 'b.txt': 'b', nested: { '.env': 'SECRET=1' } },
+        '.env': 'SECRET=2',
+      },
+    });
+    handler = new XFilesHandler({
+      provider,
+      allowedPaths: ['/r'],
+      rules: [
+        { match: 'uploads/**', allow: ['write', 'delete'] },
+        { match: '**/.env', deny: '*' },
+      ],
+    });
+  });
+
+  it('grants and revokes permissions by glob, later rules winning', async () => {
+    assert.deepEqual(await handler.getPermissions('/r/docs/a.md'), { path: '/r/docs/a.md', read: true, write: false, delete: false });
+    assert.deepEqual(await handler.getPermissions('/r/uploads'), { path: '/r/uploads', read: true, write: true, delete: true });
+    assert.deepEqual(await handler.getPermissions('/r/uploads/nested/.env'), { path: '/r/uploads/nested/.env', read: false, write: false, delete: false });
+  });
+
+  it('enforces them on every operation', async () => {
+    await assert.rejects(handler.writeFile('/r/docs/new.md', 'x'), /Write operations are not allowed: \/r\/docs\/new.md/);
+    await assert.rejects(handler.readFile('/r/.env'), /Read access denied: \/r\/.env/);
+    await handler.writeFile('/r/uploads/new.txt', 'x');
+
+    // Both ends of a copy or rename, and every entry of a moved tree
+    await assert.rejects(handler.copyItem('/r/docs/a.md', '/r/docs/copy.md'), /Write operations are not allowed/);
+    await handler.copyItem('/r/docs/a.md', '/r/uploads/a.md');
+    await assert.rejects(handler.renameItem('/r/uploads/b.txt', '/r/docs/b.txt'), /Write operations are not allowed/);
+    await assert.rejects(handler.renameItem('/r/uploads/nested', '/r/uploads/moved'), /Write operations are not allowed/);
+    await assert.rejects(handler.deleteItem('/r/uploads/nested'), /Delete operations are not allowed/);
+  });
+
+  it('leaves unreadable entries out of listings and searches', async () => {
+    const names = (await handler.listDirectory('/r')).map((entry) => entry.name).sort();
+    assert.deepEqual(names, ['docs', 'uploads']);
+    assert.deepEqual(await handler.searchFiles('/r', '.env'), []);
+  });
+});
+
+describe('authorize', () => {
+  let server;
+  let client;
+  const calls = [];
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({
+      '/a': { 'open.txt': 'open', 'a.zip': await zip([{ name: 'x.txt', content: 'x' }]) },
+    });
+    server = await startServer({
+      provider,
+      allowedPaths: ['/a'],
+      allowWrite: true,
+      allowDelete: true,
+      trash: true,
+      authorize: (operation, targetPath) => {
+        calls.push(`${operation} ${targetPath}`);
+        return !targetPath.includes('secret');
+      },
+    });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  it('checks the destinations of renames, copies and extractions', async () => {
+    await assert.rejects(client.rename('/a/open.txt', '/a/secret.txt'), /Operation not authorized/);
+    await assert.rejects(client.copy('/a/open.txt', '/a/secret.txt'), /Operation not authorized/);
+    await assert.rejects(client.extract('/a/a.zip', '/a/secret'), /Operation not authorized/);
+    assert.equal((await server.handler.exists('/a/secret.txt')).exists, false);
+    assert.equal((await server.handler.exists('/a/secret')).exists, false);
+
+    calls.length = 0;
+    await client.copy('/a/open.txt', '/a/copy.txt');
+    assert.deepEqual(calls, ['copy /a/open.txt', 'copy /a/copy.txt']);
+  });
+
+  it('checks where a trash item is restored to', async () => {
+    await client.deleteItem('/a/copy.txt');
+    const [item] = await client.listTrash('/a');
+
+    await assert.rejects(client.restoreFromTrash(item.id, { destination: '/a/secret.txt' }), /Operation not authorized/);
+
+    calls.length = 0;
+    await client.restoreFromTrash(item.id);
+    assert.deepEqual(calls, ['trash-restore /a/copy.txt', 'trash-restore /a/copy.txt']);
+  });
+});
@@ -0,0 +1,63 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+
+describe('search filters', () => {
+  let handler;
+
+  before(async () => {
+    let time = Date.UTC(2026, 0, 1);
+    const provider = new MemoryFileSystemProvider({}, { now: () => new Date(time) });
+    const files = {
+      '/s/README.md': 10,
+      '/s/src/index.ts': 100,
+      '/s/src/util/strings.ts': 1000,
+      '/s/src/app.min.js': 50,
+      '/s/node_modules/lib/index.js': 20,
+      '/s/docs/guide.md': 5000,
+    };
+
+    await provider.mkdir('/s/src/util', { recursive: true });
+    await provider.mkdir('/s/node_modules/lib', { recursive: true });
+    await provider.mkdir('/s/docs', { recursive: true });
+    for (const [filePath, size] of Object.entries(files)) {
+      time += 24 * 60 * 60 * 1000;
+      await provider.write(filePath, Buffer.alloc(size, 'x'));
+    }
+    handler = new XFilesHandler({ provider, allowedPaths: ['/s'] });
+  });
+
+  const search = async (pattern, options) => (await handler.searchFiles('/s', pattern, options)).map((entry) => entry.path).sort();
+
+  it('matches names by regular expression or glob', async () => {
+    assert.deepEqual(await search('\\.md$'), ['/s/README.md', '/s/docs/guide.md']);
+    assert.deepEqual(await search('*.ts', { mode: 'glob' }), ['/s/src/index.ts', '/s/src/util/strings.ts']);
+    assert.deepEqual(await search('src/*.ts', { mode: 'glob' }), ['/s/src/index.ts']);
+    assert.deepEqual(await search('readme', { caseSensitive: true }), []);
+  });
+
+  it('filters by type, size and modification time', async () => {
+    assert.deepEqual(await search('', { type: 'directory', maxDepth: 1 }), ['/s/docs', '/s/node_modules', '/s/src']);
+    assert.deepEqual(await search('', { type: 'file', minSize: 100, maxSize: 1000 }), ['/s/src/index.ts', '/s/src/util/strings.ts']);
+    assert.deepEqual(
+      await search('', { type: 'file', modifiedAfter: '2026-01-03T00:00:00Z', modifiedBefore: new Date(Date.UTC(2026, 0, 5)) }),
+      ['/s/src/index.ts', '/s/src/util/strings.ts']
+    );
+  });
+
+  it('limits depth and results', async () => {
+    assert.deepEqual(await search('', { type: 'file', maxDepth: 1 }), ['/s/README.md']);
+    assert.deepEqual(await search('', { type: 'file', recursive: false }), ['/s/README.md']);
+    assert.equal((await search('', { maxResults: 2 })).length, 2);
+  });
+
+  it('skips excluded paths and everything below excluded directories', async () => {
+    const found = await search('\\.js$', { exclude: ['node_modules/**', '*.min.js'] });
+    assert.deepEqual(found, []);
+    assert.deepEqual(await search('', { type: 'file', exclude: ['/src', 'docs/**', 'node_modules'] }), ['/s/README.md']);
+  });
+
+  it('rejects invalid patterns', async () => {
+    await assert.rejects(handler.searchFiles('/s', '('), /Invalid/);
+  });
+});
@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+describe('per-user sessions', () => {
+  let server;
+  const sessions = [];
+  const authorized = [];
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({ '/home': { alice: { 'a.txt': 'a' }, bob: { 'b.txt': 'b' } } });
+    server = await startServer({
+      provider,
+      allowedPaths: ['/home'],
+      rules: [{ match: '**/*.secret', deny: '*' }],
+      authenticate: () => sessions.shift(),
+      authorize: (operation, targetPath, req, session) => {
+        authorized.push([operation, session?.user?.id]);
+        return !session?.user?.suspended;
+      },
+    });
+  });
+
+  after(() => server.close());
+
+  function connect(session) {
+    sessions.push(session);
+    return server.connect();
+  }
+
+  it('refuses connections authenticate turns down', async () => {
+    await assert.rejects(connect(false), /Authentication failed/);
+  });
+
+  it('gives each session its own roots and permissions', async () => {
+    const alice = await connect({ user: { id: 'alice' }, allowedPaths: ['/home/alice'], allowWrite: true });
+    const bob = await connect({ user: { id: 'bob' }, allowedPaths: ['/home/bob'] });
+
+    assert.deepEqual(alice.getServerConfig().allowedPaths, ['/home/alice']);
+    assert.equal(alice.getServerConfig().allowWrite, true);
+    assert.equal(bob.getServerConfig().allowWrite, false);
+
+    await alice.writeFile('/home/alice/new.txt', 'new');
+    await assert.rejects(alice.readFile('/home/bob/b.txt'), /Access denied/);
+    await assert.rejects(bob.writeFile('/home/bob/new.txt', 'new'), /Write operations are not allowed/);
+    assert.equal((await bob.readFile('/home/bob/b.txt')).content, 'b');
+  });
+
+  it('applies session rules after the handler rules', async () => {
+    const alice = await connect({
+      user: { id: 'alice' },
+      allowedPaths: ['/home/alice'],
+      allowWrite: true,
+      rules: [{ match: 'a.txt', deny: ['write'] }],
+    });
+
+    await assert.rejects(alice.writeFile('/home/alice/a.txt', 'x'), /Write operations are not allowed/);
+    await assert.rejects(alice.writeFile('/home/alice/x.secret', 'x'), /Write operations are not allowed/);
+    assert.deepEqual(await alice.getPermissions('/home/alice/a.txt'), { path: '/home/alice/a.txt', read: true, write: false, delete: false });
+  });
+
+  it('passes the session to authorize', async () => {
+    const carol = await connect({ user: { id: 'carol', suspended: true } });
+
+    authorized.length = 0;
+    await assert.rejects(carol.listDirectory('/home'), /Operation not authorized/);
+    assert.deepEqual(authorized, [['list', 'carol']]);
+  });
+});
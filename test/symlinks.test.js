@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { XFilesHandler } from '../dist/server/index.js';
+
+describe('symbolic links', () => {
+  let base;
+  let root;
+  let outside;
+
+  before(async () => {
+    base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'x-files-links-')));
+    root = path.join(base, 'root');
+    outside = path.join(base, 'outside');
+
+    await fs.mkdir(path.join(root, 'inside'), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(root, 'inside', 'a.txt'), 'inside');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+
+    await fs.symlink(path.join(root, 'inside', 'a.txt'), path.join(root, 'in-link'));
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(root, 'out-link'));
+    await fs.symlink(outside, path.join(root, 'out-dir'));
+    await fs.symlink(path.join(outside, 'new.txt'), path.join(root, 'dangling'));
+  });
+
+  after(() => fs.rm(base, { recursive: true, force: true }));
+
+  const handlerWith = (symlinks) => new XFilesHandler({ allowedPaths: [root], allowWrite: true, symlinks });
+  const at = (name) => path.join(root, name);
+
+  it('follows links only to targets inside the roots by default', async () => {
+    const handler = handlerWith(undefined);
+
+    assert.equal((await handler.readFile(at('in-link'))).content, 'inside');
+    await assert.rejects(handler.readFile(at('out-link')), /Access denied/);
+    await assert.rejects(handler.listDirectory(at('out-dir')), /Access denied/);
+    await assert.rejects(handler.readFile(path.join(at('out-dir'), 'secret.txt')), /Access denied/);
+  });
+
+  it('checks writes through dangling links against where the file would be created', async () => {
+    await assert.rejects(handlerWith('within-roots').writeFile(at('dangling'), 'x'), /Access denied/);
+    await assert.rejects(fs.stat(path.join(outside, 'new.txt')), { code: 'ENOENT' });
+  });
+
+  it('refuses every link with deny', async () => {
+    const handler = handlerWith('deny');
+
+    await assert.rejects(handler.readFile(at('in-link')), /Access denied/);
+    await assert.rejects(handler.readFile(at('out-link')), /Access denied/);
+    assert.equal((await handler.readFile(at('inside/a.txt'))).content, 'inside');
+  });
+
+  it('follows every link with follow', async () => {
+    const handler = handlerWith('follow');
+
+    assert.equal((await handler.readFile(at('out-link'))).content, 'secret');
+    assert.equal((await handler.readFile(path.join(at('out-dir'), 'secret.txt'))).content, 'secret');
+  });
+
+  it('still lists links, with their targets', async () => {
+    const entries = await handlerWith('deny').listDirectory(root);
+    const link = entries.find((entry) => entry.name === 'out-link');
+
+    assert.equal(link.isSymlink, true);
+    assert.equal(link.linkTarget, path.join(outside, 'secret.txt'));
+  });
+});
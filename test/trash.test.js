@@ -0,0 +1,79 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+
+describe('trash', () => {
+  let provider;
+  let handler;
+
+  before(() => {
+    provider = new MemoryFileSystemProvider({ '/t': { 'a.txt': 'alpha', dir: { 'b.txt': 'beta' } } });
+    handler = new XFilesHandler({ provider, allowedPaths: ['/t'], allowWrite: true, allowDelete: true, trash: { retentionDays: 30 } });
+  });
+
+  const exists = async (itemPath) => (await handler.exists(itemPath)).exists;
+
+  it('moves deleted items into a trash that clients can only reach through the trash operations', async () => {
+    const { trashId } = await handler.deleteItem('/t/dir');
+    assert.equal(await exists('/t/dir'), false);
+
+    const [item] = await handler.listTrash('/t');
+    assert.equal(item.id, trashId);
+    assert.deepEqual([item.name, item.originalPath, item.root, item.isDirectory], ['dir', '/t/dir', '/t', true]);
+    assert.equal(Date.parse(item.expiresAt) - Date.parse(item.deletedAt), 30 * 24 * 60 * 60 * 1000);
+
+    assert.deepEqual((await handler.listDirectory('/t')).map((entry) => entry.name), ['a.txt']);
+    await assert.rejects(handler.listDirectory('/t/.x-files-trash'), /Read access denied/);
+
+    await handler.restoreFromTrash(trashId);
+    assert.equal((await handler.readFile('/t/dir/b.txt')).content, 'beta');
+    assert.deepEqual(await handler.listTrash('/t'), []);
+  });
+
+  it('handles restore targets that were taken since', async () => {
+    await handler.deleteItem('/t/a.txt');
+    await handler.writeFile('/t/a.txt', 'newer');
+    const [item] = await handler.listTrash('/t');
+
+    await assert.rejects(handler.restoreFromTrash(item.id), { code: 'TARGET_EXISTS' });
+    assert.deepEqual(await handler.restoreFromTrash(item.id, { conflict: 'rename' }), { path: '/t/a (1).txt' });
+    assert.equal((await handler.readFile('/t/a (1).txt')).content, 'alpha');
+
+    // Overwriting trashes what was in the way
+    await handler.deleteItem('/t/a (1).txt');
+    const [again] = await handler.listTrash('/t');
+    await handler.restoreFromTrash(again.id, { conflict: 'overwrite', destination: '/t/a.txt' });
+    assert.equal((await handler.readFile('/t/a.txt')).content, 'alpha');
+    assert.deepEqual((await handler.listTrash('/t')).map((entry) => entry.originalPath), ['/t/a.txt']);
+  });
+
+  it('purges one item or all of them', async () => {
+    await handler.writeFile('/t/c.txt', 'c');
+    const { trashId } = await handler.deleteItem('/t/c.txt');
+
+    assert.deepEqual(await handler.purgeTrash(trashId), { purged: 1 });
+    await assert.rejects(handler.restoreFromTrash(trashId), /Not in trash/);
+    assert.deepEqual(await handler.purgeTrash(), { purged: 1 });
+    assert.deepEqual(await handler.listTrash('/t'), []);
+  });
+
+  it('purges expired items when the trash is listed', async () => {
+    const { trashId } = await handler.deleteItem('/t/a.txt');
+    const metadataPath = `/t/.x-files-trash/${trashId}.json`;
+    const metadata = JSON.parse((await provider.read(metadataPath)).toString());
+    metadata.deletedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    await provider.write(metadataPath, Buffer.from(JSON.stringify(metadata)));
+
+    assert.deepEqual(await handler.listTrash('/t'), []);
+    assert.equal((await provider.list('/t/.x-files-trash')).length, 0);
+  });
+
+  it('deletes for good without trash mode', async () => {
+    const plain = new XFilesHandler({ provider, allowedPaths: ['/t'], allowDelete: true });
+    const result = await plain.deleteItem('/t/dir');
+
+    assert.equal(result.trashId, undefined);
+    assert.equal((await provider.list('/t/.x-files-trash')).length, 0);
+    await assert.rejects(plain.listTrash('/t'), /Trash is not enabled/);
+  });
+});
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+const alice = { user: { id: 'alice' } };
+const bob = { user: { id: 'bob' } };
+
+describe('chunked uploads', () => {
+  let provider;
+  let server;
+  let handler;
+
+  before(async () => {
+    provider = new MemoryFileSystemProvider({ '/m': { 'old.txt': 'old' } });
+    server = await startServer({ provider, allowedPaths: ['/m'], allowWrite: true, allowDelete: true, maxFileSize: 4, maxUploadSize: 64 });
+    handler = server.handler;
+  });
+
+  after(() => server.close());
+
+  it('uploads in chunks no larger than maxFileSize', async () => {
+    const client = await server.connect();
+    const progress = [];
+    const result = await client.uploadChunked('/m/big.txt', Buffer.from('0123456789'), { onProgress: (sent) => progress.push(sent) });
+
+    assert.equal(result.size, 10);
+    assert.deepEqual(progress, [4, 8, 10]);
+    assert.equal((await provider.read('/m/big.txt')).toString(), '0123456789');
+  });
+
+  it('resumes from where the server left off', async () => {
+    const { uploadId } = await handler.beginUpload('/m/resumed.txt', 6, undefined, alice);
+    await handler.writeUploadChunk(uploadId, 0, Buffer.from('abc'), alice);
+
+    const resumed = await handler.beginUpload('/m/resumed.txt', 6, uploadId, alice);
+    assert.equal(resumed.offset, 3);
+    assert.equal(resumed.nextIndex, 1);
+
+    await assert.rejects(handler.writeUploadChunk(uploadId, 0, Buffer.from('abc'), alice), /Unexpected chunk 0 \(expected 1\)/);
+    await handler.writeUploadChunk(uploadId, 1, Buffer.from('def'), alice);
+    await handler.commitUpload(uploadId, alice);
+    assert.equal((await provider.read('/m/resumed.txt')).toString(), 'abcdef');
+  });
+
+  it('keeps uploads to their owner', async () => {
+    const { uploadId } = await handler.beginUpload('/m/mine.txt', 1, undefined, alice);
+
+    await assert.rejects(handler.beginUpload('/m/mine.txt', 1, uploadId, bob), /Unknown upload/);
+    await assert.rejects(handler.writeUploadChunk(uploadId, 0, Buffer.from('x'), bob), /Unknown upload/);
+    await assert.rejects(handler.abortUpload(uploadId, bob), /Unknown upload/);
+    await handler.abortUpload(uploadId, alice);
+  });
+
+  it('enforces sizes', async () => {
+    await assert.rejects(handler.beginUpload('/m/huge.txt', 65, undefined, alice), /Upload too large: 65 bytes \(max: 64\)/);
+    await assert.rejects(handler.beginUpload('/m/huge.txt', -1, undefined, alice), /Invalid upload size: -1/);
+
+    const { uploadId } = await handler.beginUpload('/m/small.txt', 6, undefined, alice);
+    await assert.rejects(handler.writeUploadChunk(uploadId, 0, Buffer.from('12345'), alice), /Chunk too large: 5 bytes \(max: 4\)/);
+    await handler.writeUploadChunk(uploadId, 0, Buffer.from('1234'), alice);
+    await assert.rejects(handler.writeUploadChunk(uploadId, 1, Buffer.from('567'), alice), /Chunk exceeds upload size: 7 of 6 bytes/);
+    await assert.rejects(handler.commitUpload(uploadId, alice), /Upload incomplete: 4 of 6 bytes/);
+    await handler.abortUpload(uploadId, alice);
+  });
+
+  it('hides temp files from listings, searches and disk usage', async () => {
+    const { uploadId } = await handler.beginUpload('/m/pending.txt', 4, undefined, alice);
+    await handler.writeUploadChunk(uploadId, 0, Buffer.from('1234'), alice);
+
+    const names = (await handler.listDirectory('/m', alice)).map((entry) => entry.name);
+    assert.ok(!names.some((name) => name.includes(uploadId)), `listed ${names.join(', ')}`);
+    assert.deepEqual(await handler.searchFiles('/m', 'pending', {}, alice), []);
+    assert.equal((await provider.list('/m')).some((entry) => entry.name.includes(uploadId)), true);
+
+    const { bytes, files } = await handler.measureDiskUsage('/m', alice);
+    await handler.commitUpload(uploadId, alice);
+    const usage = await handler.measureDiskUsage('/m', alice);
+    assert.deepEqual([usage.bytes, usage.files], [bytes + 4, files + 1]);
+  });
+
+  it('keeps an upload whose commit was refused, so it can be committed later', async () => {
+    const holder = await server.connect();
+    const uploader = await server.connect();
+
+    const { uploadId } = await uploader.request('upload-begin', { path: '/m/old.txt', size: 3 });
+    await uploader.request('upload-chunk', { uploadId, index: 0, content: Buffer.from('new').toString('base64') });
+
+    await holder.lock('/m/old.txt');
+    await assert.rejects(uploader.request('upload-commit', { uploadId }), { code: 'LOCKED' });
+    await holder.unlock('/m/old.txt');
+
+    await uploader.request('upload-commit', { uploadId });
+    assert.equal((await provider.read('/m/old.txt')).toString(), 'new');
+  });
+
+  it('checks ifMatch on commit and on resume', async () => {
+    const { version } = await handler.getStats('/m/old.txt');
+    const { uploadId } = await handler.beginUpload('/m/old.txt', 4, undefined, alice, { ifMatch: version });
+    await handler.writeUploadChunk(uploadId, 0, Buffer.from('next'), alice);
+
+    await provider.write('/m/old.txt', Buffer.from('changed behind'));
+    await assert.rejects(handler.commitUpload(uploadId, alice), { code: 'CONFLICT' });
+    await assert.rejects(handler.beginUpload('/m/old.txt', 4, uploadId, alice, { ifMatch: version }), { code: 'CONFLICT' });
+
+    // Resuming with the current version replaces the stale one
+    const { version: current } = await handler.getStats('/m/old.txt');
+    await handler.beginUpload('/m/old.txt', 4, uploadId, alice, { ifMatch: current });
+    await handler.commitUpload(uploadId, alice);
+    assert.equal((await provider.read('/m/old.txt')).toString(), 'next');
+  });
+});
+
+describe('streamed downloads', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ provider: new MemoryFileSystemProvider({ '/m': { 'a.txt': 'a' } }), allowedPaths: ['/m'] });
+  });
+
+  after(() => server.close());
+
+  it('rejects chunk sizes that are not positive numbers', async () => {
+    const client = await server.connect();
+
+    for (const chunkSize of [0, -1, 'lots']) {
+      await assert.rejects(client.request('download-stream', { path: '/m/a.txt', chunkSize }), /Invalid chunk size/);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider, XFilesHandler } from '../dist/server/index.js';
+import { startServer } from './helpers.js';
+
+describe('version preconditions', () => {
+  let provider;
+  let handler;
+
+  before(() => {
+    // Every change gets a later modification time
+    let time = Date.UTC(2026, 0, 1);
+    provider = new MemoryFileSystemProvider(
+      { '/v': { 'doc.txt': 'first', 'other.txt': 'other', dir: { 'a.txt': 'a' } } },
+      { now: () => new Date((time += 1000)) }
+    );
+    handler = new XFilesHandler({ provider, allowedPaths: ['/v'], allowWrite: true, allowDelete: true });
+  });
+
+  it('returns the same version from read, stat and list', async () => {
+    const { version } = await handler.readFile('/v/doc.txt');
+    assert.ok(version);
+    assert.equal((await handler.getStats('/v/doc.txt')).version, version);
+    assert.equal((await handler.listDirectory('/v')).find((entry) => entry.name === 'doc.txt').version, version);
+    assert.notEqual((await handler.getStats('/v/other.txt')).version, version);
+  });
+
+  it('writes only over the expected version', async () => {
+    const { version } = await handler.readFile('/v/doc.txt');
+    const written = await handler.writeFile('/v/doc.txt', 'second', 'utf-8', null, { ifMatch: version });
+    assert.notEqual(written.version, version);
+    assert.equal(written.version, (await handler.getStats('/v/doc.txt')).version);
+
+    // A writer still holding the old version gets the current one back
+    await assert.rejects(handler.writeFile('/v/doc.txt', 'lost edit', 'utf-8', null, { ifMatch: version }), (error) => {
+      assert.equal(error.code, 'CONFLICT');
+      assert.deepEqual(error.details, { path: '/v/doc.txt', version: written.version });
+      return true;
+    });
+    assert.equal((await handler.readFile('/v/doc.txt')).content, 'second');
+
+    await assert.rejects(handler.uploadFile('/v/doc.txt', 'lost upload', 'utf-8', false, null, { ifMatch: version }), { code: 'CONFLICT' });
+  });
+
+  it('never matches a missing item', async () => {
+    const { version } = await handler.getStats('/v/doc.txt');
+    await assert.rejects(handler.writeFile('/v/new.txt', 'x', 'utf-8', null, { ifMatch: version }), (error) => {
+      assert.equal(error.code, 'CONFLICT');
+      assert.equal(error.details.version, null);
+      return true;
+    });
+    assert.deepEqual(await handler.exists('/v/new.txt'), { exists: false });
+  });
+
+  it('checks the version before renaming or deleting', async () => {
+    const stale = (await handler.getStats('/v/other.txt')).version;
+    await handler.writeFile('/v/other.txt', 'changed');
+
+    await assert.rejects(handler.renameItem('/v/other.txt', '/v/moved.txt', null, { ifMatch: stale }), { code: 'CONFLICT' });
+    await assert.rejects(handler.deleteItem('/v/other.txt', null, { ifMatch: stale }), { code: 'CONFLICT' });
+    assert.equal((await handler.readFile('/v/other.txt')).content, 'changed');
+
+    const { version } = await handler.getStats('/v/other.txt');
+    await handler.renameItem('/v/other.txt', '/v/moved.txt', null, { ifMatch: version });
+    // Renaming keeps the content, so the version follows the file
+    await handler.deleteItem('/v/moved.txt', null, { ifMatch: version });
+    assert.deepEqual(await handler.exists('/v/moved.txt'), { exists: false });
+  });
+
+  it('changes a directory\'s version when its entries change', async () => {
+    const { version } = await handler.getStats('/v/dir');
+    await handler.writeFile('/v/dir/b.txt', 'b');
+    assert.notEqual((await handler.getStats('/v/dir')).version, version);
+  });
+
+  describe('over the connection', () => {
+    let server;
+    let client;
+
+    before(async () => {
+      server = await startServer({ provider, allowedPaths: ['/v'], allowWrite: true });
+      client = await server.connect();
+    });
+
+    after(() => server.close());
+
+    it('rejects conflicting writes with the current version', async () => {
+      const { version } = await client.readFile('/v/doc.txt');
+      const { version: current } = await client.writeFile('/v/doc.txt', 'third', 'utf-8', { ifMatch: version });
+
+      await assert.rejects(client.writeFile('/v/doc.txt', 'lost edit', 'utf-8', { ifMatch: version }), { code: 'CONFLICT', version: current });
+      await client.writeFile('/v/doc.txt', 'fourth', 'utf-8', { ifMatch: current });
+      assert.equal((await client.readFile('/v/doc.txt')).content, 'fourth');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { sleep, startServer } from './helpers.js';
+
+describe('watching directories', () => {
+  let provider;
+  let server;
+  let client;
+
+  before(async () => {
+    provider = new MemoryFileSystemProvider({
+      '/m': {
+        flat: { 'a.txt': 'a', 'b.txt': 'b' },
+        deep: { sub: { 'a.txt': 'a', 'b.txt': 'b' } },
+        doomed: {},
+      },
+    });
+    server = await startServer({ provider, allowedPaths: ['/m'], allowWrite: true, allowDelete: true });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  /**
+   * Watch a directory, make changes, and collect the events they caused
+   */
+  async function eventsOf(dirPath, options, change) {
+    const events = [];
+    const unwatch = await client.watch(dirPath, (event) => events.push(event), options);
+    await change();
+    await sleep(150);
+    await unwatch().catch(() => {});
+    return events.map((event) => `${event.type} ${event.path}${event.oldPath ? ` < ${event.oldPath}` : ''}`);
+  }
+
+  it('reports creates, modifies, renames and deletes', async () => {
+    const events = await eventsOf('/m/flat', {}, async () => {
+      await provider.write('/m/flat/new.txt', Buffer.from('new'));
+      await sleep(100);
+      await provider.write('/m/flat/a.txt', Buffer.from('changed'));
+      await sleep(100);
+      await provider.rename('/m/flat/b.txt', '/m/flat/c.txt');
+      await sleep(100);
+      await provider.rm('/m/flat/new.txt');
+    });
+
+    assert.deepEqual(events, [
+      'create /m/flat/new.txt',
+      'modify /m/flat/a.txt',
+      'rename /m/flat/c.txt < /m/flat/b.txt',
+      'delete /m/flat/new.txt',
+    ]);
+  });
+
+  it('knows entries in subdirectories that existed before a recursive watch', async () => {
+    const events = await eventsOf('/m/deep', { recursive: true }, async () => {
+      await provider.write('/m/deep/sub/a.txt', Buffer.from('changed'));
+      await sleep(100);
+      await provider.rm('/m/deep/sub/b.txt');
+    });
+
+    assert.deepEqual(events, ['modify /m/deep/sub/a.txt', 'delete /m/deep/sub/b.txt']);
+  });
+
+  it('reports entries created and removed before they were seen as deleted', async () => {
+    const events = await eventsOf('/m/flat', {}, async () => {
+      await provider.write('/m/flat/brief.txt', Buffer.from('brief'));
+      await provider.rm('/m/flat/brief.txt');
+    });
+
+    assert.deepEqual(events, ['delete /m/flat/brief.txt']);
+  });
+
+  it('ends the watch with an error event when the directory goes away', async () => {
+    const events = await eventsOf('/m/doomed', {}, () => provider.rm('/m/doomed', { recursive: true }));
+
+    assert.deepEqual(events, ['error /m/doomed']);
+    const connection = [...server.handler['connections'].values()][0];
+    assert.equal(connection.watchers.size, 0);
+  });
+});
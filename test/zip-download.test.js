@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { MemoryFileSystemProvider } from '../dist/server/index.js';
+import { openArchive } from '../dist/server/archive.js';
+import { readAll, startServer } from './helpers.js';
+
+describe('zip downloads', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    const provider = new MemoryFileSystemProvider({
+      '/z': {
+        project: { 'a.txt': 'alpha', src: { 'b.txt': 'beta' }, empty: {}, '.env': 'SECRET=1' },
+        other: { project: { 'c.txt': 'gamma' } },
+        'big.bin': randomBytes(100_000),
+      },
+    });
+    server = await startServer({ provider, allowedPaths: ['/z'], rules: [{ match: '**/.env', deny: '*' }] });
+    client = await server.connect();
+  });
+
+  after(() => server.close());
+
+  /**
+   * Download a zip and read its entries back
+   */
+  async function download(paths, options) {
+    const data = Buffer.from(await new Response(client.downloadZip(paths, options)).arrayBuffer());
+    const provider = new MemoryFileSystemProvider({ '/out': { 'download.zip': data } });
+    return readAll(await openArchive(provider, '/out/download.zip', 'zip'));
+  }
+
+  it('zips a directory tree, leaving out what the session can\'t read', async () => {
+    const items = await download('/z/project');
+    const byPath = Object.fromEntries(items.map((item) => [item.path, item]));
+
+    assert.deepEqual(Object.keys(byPath).sort(), ['project', 'project/a.txt', 'project/empty', 'project/src', 'project/src/b.txt']);
+    assert.equal(byPath['project/a.txt'].content, 'alpha');
+    assert.equal(byPath['project/src/b.txt'].content, 'beta');
+    assert.equal(byPath['project/empty'].type, 'directory');
+  });
+
+  it('puts each path under its own name, renaming duplicates', async () => {
+    const items = await download(['/z/project/a.txt', '/z/project/src', '/z/project', '/z/other/project']);
+    const files = items.filter((item) => item.type === 'file').map((item) => `${item.path}=${item.content}`).sort();
+
+    assert.deepEqual(files, [
+      'a.txt=alpha',
+      'project (1)/c.txt=gamma',
+      'project/a.txt=alpha',
+      'project/src/b.txt=beta',
+      'src/b.txt=beta',
+    ]);
+  });
+
+  it('streams large files in chunks', async () => {
+    const progress = [];
+    const [item] = await download('/z/big.bin', { chunkSize: 16 * 1024, onProgress: (received) => progress.push(received) });
+
+    assert.equal(item.size, 100_000);
+    assert.ok(progress.length > 1, `${progress.length} chunks`);
+  });
+
+  it('checks every path before sending anything', async () => {
+    await assert.rejects(download(['/z/project', '/elsewhere']), /Access denied/);
+    await assert.rejects(download([]), /No paths to zip/);
+  });
+});